@@ -1,163 +1,103 @@
 import type { Page } from "playwright";
+import { classifyByRules, type StepRules } from "../rules/funnelRules";
+import { MIN_TYPE_SCORE, screenDetectors, type DetectorVote } from "./detectors";
+import { collectSignals, type ScreenSignals } from "./signals";
 
 export type ScreenType = "question" | "info" | "input" | "email" | "paywall" | "other";
 
+export const SCREEN_TYPES: ScreenType[] = ["question", "info", "input", "email", "paywall", "other"];
+
+/** A detector's vote, tagged with the detector that cast it. */
+export type ClassifierEvidence = DetectorVote & { detector: string };
+
 export type ScreenClassification = {
   type: ScreenType;
+  /** Reason of the strongest vote for the winning type. */
   reason: string;
+  /** Set when a funnel rule decided the type; the runner's own safeguards then leave it alone. */
+  rule?: string;
+  /** Winner's share of all positive scores, 0..1 (1 = no competing evidence). */
+  confidence: number;
+  runnerUp: { type: ScreenType; score: number } | null;
+  /** Summed score per type that got any vote. */
+  scores: Partial<Record<ScreenType, number>>;
+  /** Null when a funnel rule decided without looking at the page. */
+  signals: ScreenSignals | null;
+  evidence: ClassifierEvidence[];
 };
 
-/**
- * Count visible buttons whose text looks like a short answer option (not navigation CTAs).
- * Filters out cookie banners, nav links, etc.
- */
-async function countOptionLikeButtons(page: Page): Promise<number> {
-  const navCta = /^(accept|reject|allow|agree|cookie|close|skip|settings?|einstellung|datenschutz|terms|privacy|ablehnen|akzeptieren)/i;
-  const languageOption =
-    /^(english|espanol|español|deutsch|francais|français|italiano|portuguese|português|polski|nederlands|turkce|tuerkce|turkish|ukrainian|русский|russian)$/i;
-  const buttons = page.locator("button:visible, [role='button']:visible");
-  const count = await buttons.count();
-  let optionCount = 0;
-  let languageCount = 0;
-  for (let i = 0; i < count && i < 20; i += 1) {
-    const text = (await buttons.nth(i).innerText().catch(() => "")).trim();
-    if (text.length > 0 && text.length < 40 && !navCta.test(text)) {
-      if (languageOption.test(text)) {
-        languageCount += 1;
-        continue;
-      }
-      optionCount += 1;
-    }
-  }
-  if (languageCount >= 4 && optionCount <= 2) {
-    return 0;
-  }
-  return optionCount;
+/** ScreenClassification without the decision itself, as stored per step in summary.json. */
+export type ClassifierBreakdown = Omit<ScreenClassification, "type" | "reason" | "rule">;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
 }
 
 /**
- * Count visible card-like divs that have cursor:pointer and short text (quiz option cards).
+ * Sum the votes per type and pick the winner; nothing at MIN_TYPE_SCORE or above → "other".
  */
-async function countClickableOptionCards(page: Page): Promise<number> {
-  return page.evaluate(() => {
-    const seen = new Set<string>();
-    let count = 0;
-    document.querySelectorAll("*").forEach((el) => {
-      if (!(el instanceof HTMLElement)) return;
-      const style = window.getComputedStyle(el);
-      if (style.cursor !== "pointer") return;
-      if (["BUTTON", "A", "INPUT", "SELECT", "LABEL"].includes(el.tagName)) return;
-      const text = (el.textContent || "").trim();
-      if (text.length > 0 && text.length < 60 && !seen.has(text)) {
-        const rect = el.getBoundingClientRect();
-        if (rect.width > 40 && rect.height > 30) {
-          seen.add(text);
-          count += 1;
-        }
-      }
-    });
-    return count;
-  });
-}
-
-export async function classifyScreen(page: Page, step: number): Promise<ScreenClassification> {
-  const content = (await page.content()).toLowerCase();
+export function scoreEvidence(evidence: ClassifierEvidence[]): Omit<ScreenClassification, "signals" | "evidence"> {
+  const scores: Partial<Record<ScreenType, number>> = {};
+  for (const vote of evidence) scores[vote.type] = (scores[vote.type] ?? 0) + vote.score;
+  const ranked = (Object.entries(scores) as Array<[ScreenType, number]>).sort((a, b) => b[1] - a[1]);
+  const positiveTotal = ranked.reduce((total, [, score]) => total + Math.max(score, 0), 0);
+  const [best, second] = ranked;
 
-  // ========== 1. PAYWALL (first, do not change logic) ==========
-  const priceMatches = content.match(/(\$|€|£|usd|eur)\s*\d+/gi) ?? [];
-  const paywallKeywords =
-    /(subscribe|buy now|purchase|continue to payment|start my plan|get my plan|unlock|try now|start plan|see your plan|show my plan|get plan|get access)/i;
-  const paywallCtaCount = await page
-    .locator("button, [role='button'], a, input[type='submit']")
-    .filter({ hasText: paywallKeywords })
-    .count();
-  const hasPaywallText =
-    /(subscription|per\s*month|your plan|unlock your plan|choose your plan|personalized plan|show my plan|see your plan|get your plan|premium|trial)/i.test(
-      content,
-    );
-  const aggressivePaywall =
-    step >= 10 &&
-    priceMatches.length >= 1 &&
-    paywallCtaCount >= 1 &&
-    /(start|subscribe|buy|continue|unlock|get access)/i.test(content);
-  const lateStageSoftPaywall =
-    step >= 20 &&
-    paywallCtaCount >= 1 &&
-    /(subscription|per month|your plan|choose your plan|unlock your plan|premium|trial)/i.test(content);
-  const lateStagePriceOfferPaywall =
-    step >= 15 &&
-    priceMatches.length >= 1 &&
-    /(today|limited|offer|save|off|discount|trial|month|week|year|billed|payment|checkout|access)/i.test(content);
-  const strongPaywallSignal =
-    aggressivePaywall ||
-    lateStageSoftPaywall ||
-    (paywallCtaCount >= 1 &&
-      (priceMatches.length >= 2 || (priceMatches.length >= 1 && hasPaywallText))) ||
-    lateStagePriceOfferPaywall;
-
-  if (step > 1 && strongPaywallSignal) {
-    return { type: "paywall", reason: `Found ${priceMatches.length} price(s), billing terms, and paywall CTA.` };
+  if (!best || best[1] < MIN_TYPE_SCORE) {
+    return {
+      type: "other",
+      reason: best ? `No MVP heuristic matched (strongest: ${best[0]} ${best[1]}).` : "No MVP heuristic matched.",
+      confidence: best ? round(1 - Math.max(best[1], 0) / MIN_TYPE_SCORE) : 1,
+      runnerUp: best ? { type: best[0], score: best[1] } : null,
+      scores,
+    };
   }
+  const strongest = evidence.filter((vote) => vote.type === best[0]).sort((a, b) => b.score - a.score)[0];
+  return {
+    type: best[0],
+    reason: strongest.reason,
+    confidence: round(best[1] / positiveTotal),
+    runnerUp: second && second[1] > 0 ? { type: second[0], score: second[1] } : null,
+    scores,
+  };
+}
 
-  // ========== 2. EMAIL (before input; even if price on page, email input = email) ==========
-  const hasEmailType = (await page.locator('input[type="email"]').count()) > 0;
-  const hasEmailAutocomplete = (await page.locator('input[autocomplete*="email" i]').count()) > 0;
-  const hasEmailName = (await page.locator('input[name*="email" i]').count()) > 0;
-  const hasEmailPlaceholder = (await page.locator('input[placeholder*="mail" i]').count()) > 0;
-  if (hasEmailType) {
-    return { type: "email", reason: "Detected input[type=email]." };
-  }
-  if (hasEmailAutocomplete) {
-    return { type: "email", reason: "Detected input[autocomplete*='email']." };
-  }
-  if (hasEmailName) {
-    return { type: "email", reason: "Detected input[name*='email']." };
-  }
-  if (hasEmailPlaceholder) {
-    return { type: "email", reason: "Detected input[placeholder*='mail']." };
+export async function classifyScreen(page: Page, step: number, rules?: StepRules | null): Promise<ScreenClassification> {
+  // Funnel rules win over every detector
+  if (rules) {
+    const ruled = await classifyByRules(page, rules);
+    if (ruled) {
+      return {
+        ...ruled,
+        confidence: 1,
+        runnerUp: null,
+        scores: { [ruled.type]: 100 },
+        signals: null,
+        evidence: [{ detector: "rules", type: ruled.type, score: 100, reason: ruled.reason }],
+      };
+    }
   }
 
-  // ========== Radio/checkbox count: input must not override question ==========
-  const radioCount = await page.locator('input[type="radio"], [role="radio"]').count();
-  const checkboxCount = await page.locator('input[type="checkbox"], [role="checkbox"]').count();
-  const hasRadioOrCheckbox = radioCount >= 1 || checkboxCount >= 1;
-
-  // ========== 3. INPUT (≥1 text/number, no radio/checkbox, no paywall) ==========
-  const inputCount = await page.locator('input[type="text"]:visible, input[type="number"]:visible').count();
-  const profileHintInputs = await page
-    .locator("input[placeholder*='height' i], input[placeholder*='weight' i], input[placeholder*='age' i], input[placeholder*='name' i]")
-    .count();
-  const bodyText = (await page.innerText("body").catch(() => "")).replace(/\s+/g, " ").trim();
-  const inputKeywords = /(your height|your weight|your age|how old|how tall|what.*height|what.*weight|enter your name|your name)/i;
-  if (!hasRadioOrCheckbox && (inputCount >= 1 || profileHintInputs >= 1)) {
-    return { type: "input", reason: "Found form fields for profile/data (no radio/checkbox)." };
-  }
-  if (!hasRadioOrCheckbox && inputKeywords.test(bodyText)) {
-    return { type: "input", reason: "Body text mentions profile data input (height/weight/age/name)." };
+  const signals = await collectSignals(page, step);
+  const evidence: ClassifierEvidence[] = [];
+  for (const detector of screenDetectors()) {
+    const votes = await detector.detect(signals, page);
+    evidence.push(...votes.map((vote) => ({ ...vote, detector: detector.name })));
   }
+  return { ...applySafeguards(scoreEvidence(evidence), signals), signals, evidence };
+}
 
-  // ========== 4. QUESTION (radio/checkbox, then buttons, then cards) ==========
-  const optionsCount = radioCount + checkboxCount;
-  if (radioCount >= 2 || checkboxCount >= 2 || optionsCount >= 2) {
-    return { type: "question", reason: `Found ${optionsCount} radio/checkbox options.` };
-  }
-  const optionButtons = await countOptionLikeButtons(page);
-  if (optionButtons >= 2) {
-    return { type: "question", reason: `Found ${optionButtons} option-like buttons (no radio/checkbox).` };
-  }
-  const optionCards = await countClickableOptionCards(page);
-  if (optionCards >= 2) {
-    return { type: "question", reason: `Found ${optionCards} clickable option cards.` };
+/**
+ * The runner's hard guarantees from before the scoring, applied after it so no registered
+ * detector can undo them: STEP 01 is never a paywall; an email field turns other/input into email.
+ */
+function applySafeguards<T extends Pick<ScreenClassification, "type" | "reason">>(result: T, signals: ScreenSignals): T {
+  let guarded = result;
+  if (signals.step === 1 && guarded.type === "paywall") {
+    guarded = { ...guarded, type: "other", reason: "Forced non-paywall on STEP 01." };
   }
-
-  // ========== 5. INFO (text + single CTA, no inputs/options) ==========
-  const hasAnyInput =
-    (await page.locator("input:visible, textarea:visible, select:visible").count().catch(() => 0)) > 0;
-  const ctaCount = await page.locator("button:visible, [role='button']:visible").count();
-  if (!hasAnyInput && optionsCount === 0 && ctaCount === 1 && bodyText.length > 20) {
-    return { type: "info", reason: "Text screen with exactly one CTA button and no inputs/options." };
+  if (signals.emailField && (guarded.type === "other" || guarded.type === "input")) {
+    guarded = { ...guarded, type: "email", reason: "Safeguard: overridden to email (email field in DOM)." };
   }
-
-  // ========== 6. OTHER ==========
-  return { type: "other", reason: "No MVP heuristic matched." };
+  return guarded;
 }
@@ -0,0 +1,128 @@
+import type { Page } from "playwright";
+import type { ScreenType } from "./classifyScreen";
+import type { ScreenSignals } from "./signals";
+
+/** One piece of evidence: `score` points for `type`. Negative scores argue against a type. */
+export type DetectorVote = {
+  type: ScreenType;
+  score: number;
+  reason: string;
+};
+
+/**
+ * A scoring rule. Every registered detector runs on every screen; the votes are summed per type.
+ * Built-in scores are tiered (paywall 100, email 90, input 80/70, question 60, info 50) so that
+ * the old precedence still decides, while weaker evidence (≤ 20) is kept for the breakdown.
+ */
+export type ScreenDetector = {
+  name: string;
+  detect(signals: ScreenSignals, page: Page): DetectorVote[] | Promise<DetectorVote[]>;
+};
+
+/** Below this total no type is trusted and the screen is "other". */
+export const MIN_TYPE_SCORE = 30;
+
+const paywallDetector: ScreenDetector = {
+  name: "paywall",
+  detect(s) {
+    const aggressive = s.step >= 10 && s.priceCount >= 1 && s.paywallCtaCount >= 1 && s.purchaseText;
+    const lateStageSoft = s.step >= 20 && s.paywallCtaCount >= 1 && s.softPaywallText;
+    const lateStagePriceOffer = s.step >= 15 && s.priceCount >= 1 && s.offerText;
+    const strong =
+      aggressive ||
+      lateStageSoft ||
+      (s.paywallCtaCount >= 1 && (s.priceCount >= 2 || (s.priceCount >= 1 && s.paywallText))) ||
+      lateStagePriceOffer;
+    if (strong && s.step > 1) {
+      return [{ type: "paywall", score: 100, reason: `Found ${s.priceCount} price(s), billing terms, and paywall CTA.` }];
+    }
+    if (strong) return [{ type: "paywall", score: 20, reason: "Paywall signals on the first screen (never a paywall)." }];
+    const weak = [s.priceCount >= 1, s.paywallCtaCount >= 1, s.paywallText].filter(Boolean).length;
+    if (weak === 0) return [];
+    return [
+      {
+        type: "paywall",
+        score: weak * 5,
+        reason: `Weak paywall signals: ${s.priceCount} price(s), ${s.paywallCtaCount} paywall CTA(s)${s.paywallText ? ", plan wording" : ""}.`,
+      },
+    ];
+  },
+};
+
+const EMAIL_REASONS: Record<NonNullable<ScreenSignals["emailField"]>, string> = {
+  type: "Detected input[type=email].",
+  autocomplete: "Detected input[autocomplete*='email'].",
+  name: "Detected input[name*='email'].",
+  placeholder: "Detected input[placeholder*='mail'].",
+};
+
+/** Email before input: even with a price on the page, an email field means email. */
+const emailDetector: ScreenDetector = {
+  name: "email",
+  detect(s) {
+    return s.emailField ? [{ type: "email", score: 90, reason: EMAIL_REASONS[s.emailField] }] : [];
+  },
+};
+
+/** Text/number fields, unless radio/checkbox options are present: then it is a question. */
+const inputDetector: ScreenDetector = {
+  name: "input",
+  detect(s) {
+    const hasOptions = s.radioCount >= 1 || s.checkboxCount >= 1;
+    const hasFields = s.inputCount >= 1 || s.profileHintInputs >= 1;
+    if (!hasOptions && hasFields) return [{ type: "input", score: 80, reason: "Found form fields for profile/data (no radio/checkbox)." }];
+    if (!hasOptions && s.profileKeywords) {
+      return [{ type: "input", score: 70, reason: "Body text mentions profile data input (height/weight/age/name)." }];
+    }
+    if (hasFields) return [{ type: "input", score: 15, reason: "Form fields next to radio/checkbox options." }];
+    return [];
+  },
+};
+
+const questionDetector: ScreenDetector = {
+  name: "question",
+  detect(s) {
+    const optionsCount = s.radioCount + s.checkboxCount;
+    if (optionsCount >= 2) return [{ type: "question", score: 60, reason: `Found ${optionsCount} radio/checkbox options.` }];
+    if (s.optionButtons >= 2) {
+      return [{ type: "question", score: 60, reason: `Found ${s.optionButtons} option-like buttons (no radio/checkbox).` }];
+    }
+    if (s.optionCards >= 2) return [{ type: "question", score: 60, reason: `Found ${s.optionCards} clickable option cards.` }];
+    if (optionsCount + s.optionButtons + s.optionCards >= 1) {
+      return [{ type: "question", score: 10, reason: "A single option-like element." }];
+    }
+    return [];
+  },
+};
+
+const infoDetector: ScreenDetector = {
+  name: "info",
+  detect(s) {
+    const noOptions = s.radioCount + s.checkboxCount === 0;
+    if (!s.anyInput && noOptions && s.ctaCount === 1 && s.bodyTextLength > 20) {
+      return [{ type: "info", score: 50, reason: "Text screen with exactly one CTA button and no inputs/options." }];
+    }
+    return [];
+  },
+};
+
+const detectors: ScreenDetector[] = [paywallDetector, emailDetector, inputDetector, questionDetector, infoDetector];
+
+/**
+ * Add a detector to every following classifyScreen call (custom funnels, experiments).
+ * A detector with the same name replaces the registered one, so built-ins can be overridden too.
+ */
+export function registerDetector(detector: ScreenDetector): void {
+  const index = detectors.findIndex((item) => item.name === detector.name);
+  if (index >= 0) detectors[index] = detector;
+  else detectors.push(detector);
+}
+
+export function unregisterDetector(name: string): void {
+  const index = detectors.findIndex((item) => item.name === name);
+  if (index >= 0) detectors.splice(index, 1);
+}
+
+export function screenDetectors(): readonly ScreenDetector[] {
+  return detectors;
+}
@@ -0,0 +1,204 @@
+import { access, readFile } from "node:fs/promises";
+import { extname, join, sep } from "node:path";
+import type { BrowserContext } from "playwright";
+import { parse as parseYaml } from "yaml";
+import { openOfflinePage } from "../snapshot/offlinePage";
+import { classifyScreen, SCREEN_TYPES, type ScreenClassification, type ScreenType } from "./classifyScreen";
+
+const LABEL_FILES = ["labels.yaml", "labels.yml", "labels.json"];
+
+/** One saved page with its ground-truth type. */
+export type LabeledSnapshot = {
+  /** HTML file, relative to the dataset folder. */
+  file: string;
+  expected: ScreenType;
+  /** Step number passed to classifyScreen (the paywall rules depend on it). */
+  step: number;
+  /** URL the page is served under; defaults to a local fake origin. */
+  url: string;
+};
+
+export type SnapshotResult = {
+  file: string;
+  expected: ScreenType;
+  actual: ScreenType;
+  reason: string;
+  confidence: number;
+  runnerUp: ScreenType | null;
+};
+
+export type TypeMetrics = {
+  /** Share of screens classified as this type that really are; null if never predicted. */
+  precision: number | null;
+  /** Share of screens of this type that were found; null if none labeled. */
+  recall: number | null;
+  support: number;
+};
+
+export type EvaluationReport = {
+  dataset: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+  perType: Record<ScreenType, TypeMetrics>;
+  /** confusion[expected][actual] = count. */
+  confusion: Record<ScreenType, Record<ScreenType, number>>;
+  mistakes: SnapshotResult[];
+};
+
+function isScreenType(value: unknown): value is ScreenType {
+  return typeof value === "string" && SCREEN_TYPES.includes(value as ScreenType);
+}
+
+/**
+ * Read DIR/labels.(yaml|yml|json):
+ *   step-07.html: question
+ *   offer.html: { type: paywall, step: 24, url: https://coursiv.io/dynamic }
+ * Every problem is reported at once.
+ */
+export async function loadLabeledSnapshots(dir: string, defaultStep: number): Promise<LabeledSnapshot[]> {
+  let labelsPath: string | null = null;
+  for (const name of LABEL_FILES) {
+    if (await access(join(dir, name)).then(() => true, () => false)) {
+      labelsPath = join(dir, name);
+      break;
+    }
+  }
+  if (!labelsPath) throw new Error(`No ${LABEL_FILES.join(" / ")} in ${dir}/.`);
+  const text = await readFile(labelsPath, "utf8");
+  const raw: unknown = extname(labelsPath) === ".json" ? JSON.parse(text) : parseYaml(text);
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${labelsPath}: expected a map of "file.html: type".`);
+  }
+
+  const errors: string[] = [];
+  const snapshots: LabeledSnapshot[] = [];
+  for (const [file, value] of Object.entries(raw)) {
+    const label = typeof value === "string" ? { type: value } : (value as Record<string, unknown> | null);
+    const step = label?.step ?? defaultStep;
+    if (!label || !isScreenType(label.type)) {
+      errors.push(`${file}: type must be one of ${SCREEN_TYPES.join(", ")}, got ${JSON.stringify(label?.type ?? value)}.`);
+      continue;
+    }
+    if (typeof step !== "number" || !Number.isInteger(step) || step < 1) {
+      errors.push(`${file}: step must be a positive integer, got ${JSON.stringify(step)}.`);
+      continue;
+    }
+    if (label.url !== undefined && typeof label.url !== "string") {
+      errors.push(`${file}: url must be a string.`);
+      continue;
+    }
+    if (!(await access(join(dir, file)).then(() => true, () => false))) {
+      errors.push(`${file}: file not found.`);
+      continue;
+    }
+    snapshots.push({
+      file,
+      expected: label.type,
+      step,
+      url: label.url ?? `http://snapshots.local/${file.split(sep).join("/")}`,
+    });
+  }
+  if (errors.length > 0) throw new Error(`Invalid ${labelsPath}:\n${errors.map((line) => `  - ${line}`).join("\n")}`);
+  return snapshots;
+}
+
+export async function classifySnapshot(context: BrowserContext, dir: string, snapshot: LabeledSnapshot): Promise<SnapshotResult> {
+  const html = await readFile(join(dir, snapshot.file), "utf8");
+  const page = await openOfflinePage(context, snapshot.url, html, dir);
+  let classification: ScreenClassification;
+  try {
+    classification = await classifyScreen(page, snapshot.step);
+  } finally {
+    await page.close();
+  }
+  return {
+    file: snapshot.file,
+    expected: snapshot.expected,
+    actual: classification.type,
+    reason: classification.reason,
+    confidence: classification.confidence,
+    runnerUp: classification.runnerUp?.type ?? null,
+  };
+}
+
+function ratio(part: number, total: number): number | null {
+  return total === 0 ? null : Math.round((part / total) * 1000) / 1000;
+}
+
+export function buildEvaluationReport(dataset: string, results: SnapshotResult[]): EvaluationReport {
+  const zeroRow = () => Object.fromEntries(SCREEN_TYPES.map((type) => [type, 0])) as Record<ScreenType, number>;
+  const confusion = Object.fromEntries(SCREEN_TYPES.map((type) => [type, zeroRow()])) as EvaluationReport["confusion"];
+  for (const result of results) confusion[result.expected][result.actual] += 1;
+
+  const perType = Object.fromEntries(
+    SCREEN_TYPES.map((type) => {
+      const truePositives = confusion[type][type];
+      const predicted = SCREEN_TYPES.reduce((total, expected) => total + confusion[expected][type], 0);
+      const support = SCREEN_TYPES.reduce((total, actual) => total + confusion[type][actual], 0);
+      return [type, { precision: ratio(truePositives, predicted), recall: ratio(truePositives, support), support }];
+    }),
+  ) as Record<ScreenType, TypeMetrics>;
+
+  const mistakes = results.filter((result) => result.actual !== result.expected);
+  return {
+    dataset,
+    total: results.length,
+    correct: results.length - mistakes.length,
+    accuracy: ratio(results.length - mistakes.length, results.length) ?? 0,
+    perType,
+    confusion,
+    mistakes,
+  };
+}
+
+/**
+ * Threshold violations, empty when the report passes. `minRecall` applies to every labeled type.
+ */
+export function evaluationFailures(report: EvaluationReport, minAccuracy: number, minRecall?: number): string[] {
+  const failures: string[] = [];
+  if (report.accuracy < minAccuracy) failures.push(`accuracy ${percent(report.accuracy)} < ${percent(minAccuracy)}`);
+  if (minRecall !== undefined) {
+    for (const type of SCREEN_TYPES) {
+      const { recall } = report.perType[type];
+      if (recall !== null && recall < minRecall) failures.push(`${type} recall ${percent(recall)} < ${percent(minRecall)}`);
+    }
+  }
+  return failures;
+}
+
+function percent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+export function formatEvaluation(report: EvaluationReport): string {
+  const lines = [
+    `Dataset: ${report.dataset}`,
+    `Snapshots: ${report.total}, correct: ${report.correct}, accuracy: ${percent(report.accuracy)}`,
+    "",
+    `${"type".padEnd(10)}${"precision".padStart(10)}${"recall".padStart(10)}${"support".padStart(9)}`,
+  ];
+  for (const type of SCREEN_TYPES) {
+    const metrics = report.perType[type];
+    if (metrics.support === 0 && metrics.precision === null) continue;
+    lines.push(
+      `${type.padEnd(10)}${percent(metrics.precision).padStart(10)}${percent(metrics.recall).padStart(10)}${String(metrics.support).padStart(9)}`,
+    );
+  }
+
+  lines.push("", "Confusion (rows: labeled, columns: classified):", `${"".padEnd(10)}${SCREEN_TYPES.map((type) => type.padStart(9)).join("")}`);
+  for (const expected of SCREEN_TYPES) {
+    const row = report.confusion[expected];
+    if (SCREEN_TYPES.every((actual) => row[actual] === 0)) continue;
+    lines.push(`${expected.padEnd(10)}${SCREEN_TYPES.map((actual) => String(row[actual] || ".").padStart(9)).join("")}`);
+  }
+
+  if (report.mistakes.length > 0) {
+    lines.push("", "Misclassified:");
+    for (const mistake of report.mistakes) {
+      const runnerUp = mistake.runnerUp ? `, runner-up ${mistake.runnerUp}` : "";
+      lines.push(`  ${mistake.file}: ${mistake.expected} → ${mistake.actual} (${mistake.confidence}${runnerUp}) — ${mistake.reason}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import type { Page } from "playwright";
+
+/**
+ * Structural identity of the visible screen: URL plus one token per visible text block ("t:…")
+ * and per interactive element with its state ("i:…"). Digits are masked and live regions,
+ * timers, progress bars and media are skipped, so countdowns and animated counters don't
+ * make the same screen look new.
+ */
+export type ScreenFingerprint = {
+  url: string;
+  tokens: string[];
+  /** Short hash of url + sorted tokens, recorded per step. */
+  hash: string;
+};
+
+const VOLATILE_SELECTOR = [
+  "[aria-live]",
+  "[role='timer']",
+  "[role='progressbar']",
+  "[role='marquee']",
+  "[role='status']",
+  "progress",
+  "meter",
+  "time",
+  "svg",
+  "canvas",
+  "video",
+  "script",
+  "style",
+  "noscript",
+  "template",
+].join(", ");
+
+const INTERACTIVE_SELECTOR =
+  "button, a[href], input, select, textarea, [role='button'], [role='radio'], [role='checkbox'], [role='option'], [role='switch'], [role='tab'], [role='link']";
+
+async function collectTokens(page: Page): Promise<string[]> {
+  return page.evaluate(
+    ({ volatileSelector, interactiveSelector }) => {
+      const dom = {
+        normalize(text: string, max: number): string {
+          return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim().slice(0, max);
+        },
+        visible(el: Element): boolean {
+          if (!(el instanceof HTMLElement) || el.getClientRects().length === 0) return false;
+          return window.getComputedStyle(el).visibility !== "hidden";
+        },
+      };
+      const tokens: string[] = [];
+
+      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const parent = node.parentElement;
+        if (!parent || parent.closest(volatileSelector) || parent.closest(interactiveSelector) || !dom.visible(parent)) continue;
+        const text = dom.normalize(node.textContent || "", 120);
+        // Bare numbers, clocks and percentages ("#:#", "#%") are counters, not content
+        if (!/[^#\s\p{P}\p{S}]/u.test(text)) continue;
+        tokens.push(`t:${text}`);
+      }
+
+      document.querySelectorAll(interactiveSelector).forEach((el) => {
+        if (el.closest(volatileSelector) || !dom.visible(el)) return;
+        const tag = el.tagName.toLowerCase();
+        const kind = el.getAttribute("role") || el.getAttribute("type") || "";
+        const label = dom.normalize(
+          (el as HTMLElement).innerText || el.getAttribute("aria-label") || el.getAttribute("placeholder") || el.getAttribute("name") || "",
+          40,
+        );
+        const state: string[] = [];
+        if (el instanceof HTMLInputElement && (el.type === "checkbox" || el.type === "radio")) {
+          if (el.checked) state.push("checked");
+        } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) {
+          if (el.value) state.push("filled");
+        }
+        if (el.getAttribute("aria-checked") === "true" || el.getAttribute("aria-selected") === "true") state.push("selected");
+        if (el.getAttribute("aria-pressed") === "true") state.push("pressed");
+        if (el.getAttribute("aria-expanded") === "true") state.push("expanded");
+        if (el.matches(":disabled") || el.getAttribute("aria-disabled") === "true") state.push("disabled");
+        tokens.push(`i:${tag}/${kind}/${label}/${state.join(",")}`);
+      });
+      return tokens;
+    },
+    { volatileSelector: VOLATILE_SELECTOR, interactiveSelector: INTERACTIVE_SELECTOR },
+  );
+}
+
+export async function getScreenFingerprint(page: Page): Promise<ScreenFingerprint> {
+  const url = page.url().replace(/#.*$/, "");
+  const tokens = page.isClosed() ? [] : await collectTokens(page).catch(() => []);
+  const hash = createHash("sha1")
+    .update([url, ...[...tokens].sort()].join("\n"))
+    .digest("hex")
+    .slice(0, 12);
+  return { url, tokens, hash };
+}
+
+/**
+ * 0..1: weighted Jaccard of the token multisets; a different URL is a different screen (0).
+ */
+export function fingerprintSimilarity(a: ScreenFingerprint, b: ScreenFingerprint): number {
+  if (a.url !== b.url) return 0;
+  if (a.hash === b.hash) return 1;
+  const counts = new Map<string, [number, number]>();
+  for (const token of a.tokens) counts.set(token, [(counts.get(token)?.[0] ?? 0) + 1, counts.get(token)?.[1] ?? 0]);
+  for (const token of b.tokens) counts.set(token, [counts.get(token)?.[0] ?? 0, (counts.get(token)?.[1] ?? 0) + 1]);
+  let shared = 0;
+  let total = 0;
+  for (const [left, right] of counts.values()) {
+    shared += Math.min(left, right);
+    total += Math.max(left, right);
+  }
+  return total === 0 ? 1 : Math.round((shared / total) * 1000) / 1000;
+}
+
+export function isSameScreen(a: ScreenFingerprint, b: ScreenFingerprint, threshold: number): boolean {
+  return fingerprintSimilarity(a, b) >= threshold;
+}
@@ -0,0 +1,49 @@
+import { createHash } from "node:crypto";
+import type { Page } from "playwright";
+
+export type ScreenKey = {
+  key: string;
+  excerpt: string;
+};
+
+/**
+ * Normalize visible text so the same screen gets the same key across runs:
+ * lowercase, collapsed whitespace, digits masked (timers, counters, "step 3/20").
+ */
+export function normalizeScreenText(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim().slice(0, 2_000);
+}
+
+/**
+ * Content-based screen identity: hash of normalized body text + a short human-readable excerpt.
+ */
+export async function getScreenKey(page: Page): Promise<ScreenKey> {
+  const bodyText = await page.innerText("body").catch(() => "");
+  const normalized = normalizeScreenText(bodyText);
+  const key = createHash("sha1").update(normalized).digest("hex").slice(0, 12);
+  const excerpt = bodyText.replace(/\s+/g, " ").trim().slice(0, 120);
+  return { key, excerpt };
+}
+
+/**
+ * Best-effort question/headline text: first visible heading-like element, else first line of body text.
+ */
+export async function getScreenHeadline(page: Page): Promise<string> {
+  const headline = await page
+    .evaluate(() => {
+      const selectors = ["h1", "h2", "h3", "legend", "[class*='title' i]", "[class*='question' i]"];
+      for (const selector of selectors) {
+        for (const el of Array.from(document.querySelectorAll(selector))) {
+          if (!(el instanceof HTMLElement)) continue;
+          const rect = el.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) continue;
+          const text = el.innerText.replace(/\s+/g, " ").trim();
+          if (text.length > 3 && text.length < 200) return text;
+        }
+      }
+      const firstLine = (document.body?.innerText || "").split("\n").map((line) => line.trim()).find(Boolean);
+      return firstLine ?? "";
+    })
+    .catch(() => "");
+  return headline.slice(0, 200);
+}
@@ -0,0 +1,155 @@
+import type { Page } from "playwright";
+import { parsePrices } from "../paywall/priceParser";
+
+/**
+ * Everything the detectors look at, measured once per screen. Stored per step in summary.json,
+ * so a wrong classification can be explained without reopening the funnel.
+ */
+export type ScreenSignals = {
+  step: number;
+  /** Prices parsed from the page HTML. */
+  priceCount: number;
+  /** Buttons/links with purchase wording (subscribe, get my plan, unlock…). */
+  paywallCtaCount: number;
+  /** Subscription / plan / trial wording. */
+  paywallText: boolean;
+  /** Narrower plan wording used by the late-stage soft paywall rule. */
+  softPaywallText: boolean;
+  /** start / subscribe / buy / continue / unlock / get access anywhere in the HTML. */
+  purchaseText: boolean;
+  /** today / limited / offer / discount / billed… anywhere in the HTML. */
+  offerText: boolean;
+  /** How an email field was found, null if there is none. */
+  emailField: "type" | "autocomplete" | "name" | "placeholder" | null;
+  radioCount: number;
+  checkboxCount: number;
+  /** Visible text / number / range / date inputs and selects. */
+  inputCount: number;
+  /** Inputs with a height / weight / age / name placeholder. */
+  profileHintInputs: number;
+  /** Body text asks for height, weight, age or name. */
+  profileKeywords: boolean;
+  optionButtons: number;
+  optionCards: number;
+  /** Any visible input, textarea or select. */
+  anyInput: boolean;
+  ctaCount: number;
+  bodyTextLength: number;
+};
+
+/**
+ * Texts of visible buttons that look like short answer options (not navigation CTAs).
+ * Filters out cookie banners, nav links, etc.; a language switcher yields no options.
+ */
+export async function getOptionLikeButtonTexts(page: Page): Promise<string[]> {
+  const navCta = /^(accept|reject|allow|agree|cookie|close|skip|settings?|einstellung|datenschutz|terms|privacy|ablehnen|akzeptieren)/i;
+  const languageOption =
+    /^(english|espanol|español|deutsch|francais|français|italiano|portuguese|português|polski|nederlands|turkce|tuerkce|turkish|ukrainian|русский|russian)$/i;
+  const buttons = page.locator("button:visible, [role='button']:visible");
+  const count = await buttons.count();
+  const options: string[] = [];
+  let languageCount = 0;
+  for (let i = 0; i < count && i < 20; i += 1) {
+    const text = (await buttons.nth(i).innerText().catch(() => "")).trim();
+    if (text.length > 0 && text.length < 40 && !navCta.test(text)) {
+      if (languageOption.test(text)) {
+        languageCount += 1;
+        continue;
+      }
+      options.push(text);
+    }
+  }
+  if (languageCount >= 4 && options.length <= 2) {
+    return [];
+  }
+  return options;
+}
+
+/**
+ * Count visible card-like divs that have cursor:pointer and short text (quiz option cards).
+ */
+async function countClickableOptionCards(page: Page): Promise<number> {
+  return page.evaluate(() => {
+    const seen = new Set<string>();
+    let count = 0;
+    document.querySelectorAll("*").forEach((el) => {
+      if (!(el instanceof HTMLElement)) return;
+      const style = window.getComputedStyle(el);
+      if (style.cursor !== "pointer") return;
+      if (["BUTTON", "A", "INPUT", "SELECT", "LABEL"].includes(el.tagName)) return;
+      const text = (el.textContent || "").trim();
+      if (text.length > 0 && text.length < 60 && !seen.has(text)) {
+        const rect = el.getBoundingClientRect();
+        if (rect.width > 40 && rect.height > 30) {
+          seen.add(text);
+          count += 1;
+        }
+      }
+    });
+    return count;
+  });
+}
+
+/**
+ * Radio/checkbox controls that are rendered: the control itself or its label. Custom-styled options
+ * hide the native input behind a visible label; rule `ignore` hides both, so those don't count.
+ */
+async function countRenderedControls(page: Page, selector: string): Promise<number> {
+  return page
+    .locator(selector)
+    .evaluateAll(
+      (elements) =>
+        elements.filter((el) => {
+          const label = el instanceof HTMLInputElement ? (el.labels?.[0] ?? null) : el.closest("label");
+          return [el, label].some((node) => node instanceof HTMLElement && node.getClientRects().length > 0);
+        }).length,
+    )
+    .catch(() => 0);
+}
+
+async function findEmailField(page: Page): Promise<ScreenSignals["emailField"]> {
+  if ((await page.locator('input[type="email"]').count()) > 0) return "type";
+  if ((await page.locator('input[autocomplete*="email" i]').count()) > 0) return "autocomplete";
+  if ((await page.locator('input[name*="email" i]').count()) > 0) return "name";
+  if ((await page.locator('input[placeholder*="mail" i]').count()) > 0) return "placeholder";
+  return null;
+}
+
+export async function collectSignals(page: Page, step: number): Promise<ScreenSignals> {
+  const html = await page.content();
+  const content = html.toLowerCase();
+  const bodyText = (await page.innerText("body").catch(() => "")).replace(/\s+/g, " ").trim();
+  const paywallKeywords =
+    /(subscribe|buy now|purchase|continue to payment|start my plan|get my plan|unlock|try now|start plan|see your plan|show my plan|get plan|get access)/i;
+
+  return {
+    step,
+    // Prices are parsed from the original-case HTML: currency codes (CHF, PLN, ...) are upper case.
+    priceCount: parsePrices(html).length,
+    paywallCtaCount: await page.locator("button, [role='button'], a, input[type='submit']").filter({ hasText: paywallKeywords }).count(),
+    paywallText:
+      /(subscription|per\s*month|your plan|unlock your plan|choose your plan|personalized plan|show my plan|see your plan|get your plan|premium|trial)/i.test(
+        content,
+      ),
+    softPaywallText: /(subscription|per month|your plan|choose your plan|unlock your plan|premium|trial)/i.test(content),
+    purchaseText: /(start|subscribe|buy|continue|unlock|get access)/i.test(content),
+    offerText: /(today|limited|offer|save|off|discount|trial|month|week|year|billed|payment|checkout|access)/i.test(content),
+    emailField: await findEmailField(page),
+    radioCount: await countRenderedControls(page, 'input[type="radio"], [role="radio"]'),
+    checkboxCount: await countRenderedControls(page, 'input[type="checkbox"], [role="checkbox"]'),
+    inputCount: await page
+      .locator(
+        'input[type="text"]:visible, input[type="number"]:visible, input[type="range"]:visible, input[type="date"]:visible, select:visible',
+      )
+      .count(),
+    profileHintInputs: await page
+      .locator("input[placeholder*='height' i], input[placeholder*='weight' i], input[placeholder*='age' i], input[placeholder*='name' i]")
+      .count(),
+    profileKeywords: /(your height|your weight|your age|how old|how tall|what.*height|what.*weight|enter your name|your name)/i.test(bodyText),
+    optionButtons: (await getOptionLikeButtonTexts(page)).length,
+    optionCards: await countClickableOptionCards(page),
+    anyInput: (await page.locator("input:visible, textarea:visible, select:visible").count().catch(() => 0)) > 0,
+    ctaCount: await page.locator("button:visible, [role='button']:visible").count(),
+    bodyTextLength: bodyText.length,
+  };
+}
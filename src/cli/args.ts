@@ -0,0 +1,99 @@
+/**
+ * Minimal argv parser: `<command> [positionals] --flag=value --flag value --switch`.
+ * Every command declares its flags, so typos fail loudly instead of being ignored.
+ */
+
+export type FlagKind = "string" | "number" | "boolean" | "switch";
+
+export type FlagSpec = {
+  name: string;
+  /** "switch" accepts both `--name` and `--name=value` (e.g. --explore / --explore=dfs). */
+  kind: FlagKind;
+  value?: string;
+  description: string;
+};
+
+export type ParsedArgs = {
+  positionals: string[];
+  flags: Map<string, string | true>;
+};
+
+/** Bad command line; printed together with the command help instead of a stack trace. */
+export class UsageError extends Error {}
+
+export function parseArgs(argv: string[], specs: FlagSpec[]): ParsedArgs {
+  const byName = new Map(specs.map((spec) => [spec.name, spec]));
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = eq >= 0 ? arg.slice(2, eq) : arg.slice(2);
+    const spec = byName.get(name);
+    if (!spec) throw new UsageError(`Unknown option --${name}.`);
+
+    if (spec.kind === "boolean") {
+      if (eq >= 0) throw new UsageError(`--${name} does not take a value.`);
+      flags.set(name, true);
+    } else if (eq >= 0) {
+      flags.set(name, arg.slice(eq + 1));
+    } else if (spec.kind === "switch") {
+      flags.set(name, true);
+    } else {
+      const next = argv[index + 1];
+      if (next === undefined || next.startsWith("--")) throw new UsageError(`--${name} needs a value.`);
+      flags.set(name, next);
+      index += 1;
+    }
+  }
+  return { positionals, flags };
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+export function booleanFlag(args: ParsedArgs, name: string): boolean {
+  return args.flags.get(name) === true;
+}
+
+/**
+ * Positive integer flag, with an optional environment variable fallback.
+ */
+export function numberFlag(args: ParsedArgs, name: string, envName?: string): number | undefined {
+  const raw = stringFlag(args, name) ?? (envName ? process.env[envName] : undefined);
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new UsageError(`--${name} must be a positive integer, got "${raw}".`);
+  }
+  return value;
+}
+
+/**
+ * Number flag within [min, max], fractions allowed (thresholds, ratios).
+ */
+export function rangeFlag(args: ParsedArgs, name: string, min: number, max: number): number | undefined {
+  const raw = stringFlag(args, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (raw.trim() === "" || !Number.isFinite(value) || value < min || value > max) {
+    throw new UsageError(`--${name} must be a number between ${min} and ${max}, got "${raw}".`);
+  }
+  return value;
+}
+
+export function formatFlagHelp(specs: FlagSpec[]): string {
+  const rows = specs.map((spec) => {
+    const value = spec.value ? (spec.kind === "switch" ? `[=${spec.value}]` : `=${spec.value}`) : "";
+    return [`--${spec.name}${value}`, spec.description];
+  });
+  const width = Math.max(...rows.map(([flag]) => flag.length)) + 2;
+  return rows.map(([flag, description]) => `  ${flag.padEnd(width)}${description}`).join("\n");
+}
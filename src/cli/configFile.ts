@@ -0,0 +1,301 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { parseAnswerStrategy } from "../navigator/answerStrategy";
+import { isBrowserEngine, parseViewport, resolveDevice, type BrowserEngine } from "../runner/device";
+import { parseGeolocation, resolveEmulation } from "../runner/emulation";
+import {
+  parseArtifactKinds,
+  parseRetentionMode,
+  type ArtifactKind,
+  type RetentionMode,
+} from "../runner/artifacts";
+import { RUN_SETTING_KEYS, type RunSettings } from "../runner/runFunnel";
+
+export type FunnelConfig = {
+  url: string;
+  /** Answer strategy spec for this funnel only (see parseAnswerStrategy). */
+  answer?: string;
+  /** RUN_CONFIG overrides for this funnel only, merged over the file-level runConfig. */
+  runConfig?: Partial<RunSettings>;
+};
+
+/**
+ * Config file (--config=runner.config.yaml). Every key is optional; CLI flags win over the file,
+ * the file wins over src/config.ts.
+ */
+export type RunnerConfig = {
+  funnels?: FunnelConfig[];
+  outputDir?: string;
+  concurrency?: number;
+  limit?: number;
+  headful?: boolean;
+  answer?: string;
+  personas?: string[];
+  devices?: string[];
+  engine?: BrowserEngine;
+  viewport?: string;
+  dpr?: number;
+  userAgent?: string;
+  locales?: string[];
+  timezone?: string;
+  geo?: string;
+  acceptLanguage?: string;
+  capture?: ArtifactKind[];
+  retain?: RetentionMode;
+  /** Path to a funnel rules file (see src/cli/rulesFile.ts). */
+  rules?: string;
+  runConfig?: Partial<RunSettings>;
+};
+
+/** The config file is missing, unparsable or fails validation. */
+export class ConfigError extends Error {}
+
+const TOP_LEVEL_KEYS = [
+  "funnels",
+  "outputDir",
+  "concurrency",
+  "limit",
+  "headful",
+  "answer",
+  "personas",
+  "devices",
+  "engine",
+  "viewport",
+  "dpr",
+  "userAgent",
+  "locales",
+  "timezone",
+  "geo",
+  "acceptLanguage",
+  "capture",
+  "retain",
+  "rules",
+  "runConfig",
+];
+const FUNNEL_KEYS = ["url", "answer", "runConfig"];
+
+/** Collects every problem in the file so the user can fix them in one go. */
+export class Validator {
+  readonly errors: string[] = [];
+
+  error(path: string, message: string): undefined {
+    this.errors.push(`${path}: ${message}`);
+    return undefined;
+  }
+
+  object(path: string, value: unknown, allowedKeys: string[]): Record<string, unknown> | undefined {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return this.error(path || "config", `expected an object, got ${describe(value)}.`);
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowedKeys.includes(key)) {
+        this.error(path ? `${path}.${key}` : key, `unknown key. Allowed: ${allowedKeys.join(", ")}.`);
+      }
+    }
+    return value as Record<string, unknown>;
+  }
+
+  string(path: string, value: unknown): string | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || value.trim() === "") {
+      return this.error(path, `expected a non-empty string, got ${describe(value)}.`);
+    }
+    return value.trim();
+  }
+
+  positiveInteger(path: string, value: unknown): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      return this.error(path, `expected a positive integer, got ${describe(value)}.`);
+    }
+    return value;
+  }
+
+  /** A number in 0..1 (ratios, thresholds). */
+  fraction(path: string, value: unknown): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 1) {
+      return this.error(path, `expected a number between 0 and 1, got ${describe(value)}.`);
+    }
+    return value;
+  }
+
+  boolean(path: string, value: unknown): boolean | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "boolean") return this.error(path, `expected true or false, got ${describe(value)}.`);
+    return value;
+  }
+
+  /** A YAML/JSON list or a comma-separated string, like the matching CLI flag. */
+  stringList(path: string, value: unknown): string[] | undefined {
+    if (value === undefined) return undefined;
+    const items = typeof value === "string" ? value.split(",") : value;
+    if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) {
+      return this.error(path, `expected a list of strings, got ${describe(value)}.`);
+    }
+    const list = items.map((item: string) => item.trim()).filter(Boolean);
+    if (list.length === 0) return this.error(path, "list is empty.");
+    return list;
+  }
+
+  /** Run one of the CLI parsers (resolveDevice, parseAnswerStrategy…) and report its message under `path`. */
+  check(path: string, parse: () => unknown): void {
+    try {
+      parse();
+    } catch (error) {
+      this.error(path, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+export function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "object") return "an object";
+  return JSON.stringify(value);
+}
+
+function validateRunConfig(validator: Validator, path: string, value: unknown): Partial<RunSettings> | undefined {
+  if (value === undefined) return undefined;
+  const raw = validator.object(path, value, RUN_SETTING_KEYS);
+  if (!raw) return undefined;
+  const settings: Partial<RunSettings> = {};
+  for (const key of RUN_SETTING_KEYS) {
+    const parsed =
+      key === "loopSimilarity" ? validator.fraction(`${path}.${key}`, raw[key]) : validator.positiveInteger(`${path}.${key}`, raw[key]);
+    if (parsed !== undefined) settings[key] = parsed;
+  }
+  return settings;
+}
+
+function validateUrl(validator: Validator, path: string, value: unknown): string | undefined {
+  const url = validator.string(path, value);
+  if (url === undefined) return value === undefined ? validator.error(path, "url is required.") : undefined;
+  let protocol = "";
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return validator.error(path, `"${url}" is not a valid URL.`);
+  }
+  if (protocol !== "http:" && protocol !== "https:") return validator.error(path, `"${url}" must be http(s).`);
+  return url;
+}
+
+function validateFunnel(validator: Validator, path: string, value: unknown): FunnelConfig | undefined {
+  if (typeof value === "string") {
+    const url = validateUrl(validator, path, value);
+    return url ? { url } : undefined;
+  }
+  const raw = validator.object(path, value, FUNNEL_KEYS);
+  if (!raw) return undefined;
+  const url = validateUrl(validator, `${path}.url`, raw.url);
+  const answer = validator.string(`${path}.answer`, raw.answer);
+  if (answer) validator.check(`${path}.answer`, () => parseAnswerStrategy(answer));
+  const runConfig = validateRunConfig(validator, `${path}.runConfig`, raw.runConfig);
+  if (!url) return undefined;
+  const funnel: FunnelConfig = { url };
+  if (answer) funnel.answer = answer;
+  if (runConfig) funnel.runConfig = runConfig;
+  return funnel;
+}
+
+/**
+ * Check a parsed config object against the RunnerConfig schema. All problems are reported at once.
+ */
+export function validateRunnerConfig(raw: unknown, source: string): RunnerConfig {
+  const validator = new Validator();
+  const file = validator.object("", raw ?? {}, TOP_LEVEL_KEYS) ?? {};
+  const config: RunnerConfig = {};
+
+  if (file.funnels !== undefined) {
+    if (!Array.isArray(file.funnels)) {
+      validator.error("funnels", `expected a list of URLs or { url, answer, runConfig } objects, got ${describe(file.funnels)}.`);
+    } else {
+      config.funnels = file.funnels
+        .map((item, index) => validateFunnel(validator, `funnels[${index}]`, item))
+        .filter((item): item is FunnelConfig => item !== undefined);
+    }
+  }
+
+  config.outputDir = validator.string("outputDir", file.outputDir);
+  config.concurrency = validator.positiveInteger("concurrency", file.concurrency);
+  config.limit = validator.positiveInteger("limit", file.limit);
+  config.headful = validator.boolean("headful", file.headful);
+  config.answer = validator.string("answer", file.answer);
+  if (config.answer) {
+    const answer = config.answer;
+    validator.check("answer", () => parseAnswerStrategy(answer));
+  }
+  config.personas = validator.stringList("personas", file.personas);
+
+  const engine = validator.string("engine", file.engine);
+  if (engine !== undefined) {
+    if (isBrowserEngine(engine)) config.engine = engine;
+    else validator.error("engine", `expected chromium, webkit or firefox, got "${engine}".`);
+  }
+  config.viewport = validator.string("viewport", file.viewport);
+  if (config.viewport) {
+    const viewport = config.viewport;
+    validator.check("viewport", () => parseViewport(viewport));
+  }
+  if (file.dpr !== undefined) {
+    if (typeof file.dpr === "number" && Number.isFinite(file.dpr) && file.dpr > 0) config.dpr = file.dpr;
+    else validator.error("dpr", `expected a positive number, got ${describe(file.dpr)}.`);
+  }
+  config.userAgent = validator.string("userAgent", file.userAgent);
+  config.devices = validator.stringList("devices", file.devices);
+  for (const [index, name] of (config.devices ?? []).entries()) {
+    // "custom" needs the viewport; an invalid viewport is already reported above.
+    const viewport = config.viewport && /^\d+\s*[x×]\s*\d+$/i.test(config.viewport) ? parseViewport(config.viewport) : undefined;
+    validator.check(`devices[${index}]`, () => resolveDevice(name, { viewport }));
+  }
+
+  config.locales = validator.stringList("locales", file.locales);
+  for (const [index, locale] of (config.locales ?? []).entries()) {
+    validator.check(`locales[${index}]`, () => resolveEmulation(locale));
+  }
+  config.timezone = validator.string("timezone", file.timezone);
+  config.geo = validator.string("geo", file.geo);
+  if (config.geo) {
+    const geo = config.geo;
+    validator.check("geo", () => parseGeolocation(geo));
+  }
+  config.acceptLanguage = validator.string("acceptLanguage", file.acceptLanguage);
+  const capture = validator.stringList("capture", file.capture);
+  if (capture) {
+    validator.check("capture", () => {
+      config.capture = parseArtifactKinds(capture.join(","));
+    });
+  }
+  const retain = validator.string("retain", file.retain);
+  if (retain) {
+    validator.check("retain", () => {
+      config.retain = parseRetentionMode(retain);
+    });
+  }
+  config.rules = validator.string("rules", file.rules);
+  config.runConfig = validateRunConfig(validator, "runConfig", file.runConfig);
+
+  if (validator.errors.length > 0) {
+    throw new ConfigError(`Invalid config ${source}:\n${validator.errors.map((line) => `  - ${line}`).join("\n")}`);
+  }
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) as RunnerConfig;
+}
+
+/**
+ * Read a .json / .yaml / .yml config file.
+ */
+export async function loadRunnerConfig(path: string): Promise<RunnerConfig> {
+  const text = await readFile(path, "utf8").catch(() => {
+    throw new ConfigError(`Config file ${path} not found.`);
+  });
+  let parsed: unknown;
+  try {
+    parsed = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Invalid config ${path}: cannot parse (${message}).`);
+  }
+  return validateRunnerConfig(parsed, path);
+}
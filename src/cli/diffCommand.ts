@@ -0,0 +1,80 @@
+import { RESULTS_DIR, VISUAL_DIFF_CONFIG } from "../config";
+import { resolveRunsDir } from "../report/history";
+import { loadRunSummaries } from "../report/runIndex";
+import { diffRunSummaries, formatRunDiff } from "../report/runDiff";
+import { diffScreenshots, formatVisualDiff, loadMasksFile, parseMasks, type MaskRect } from "../report/visualDiff";
+import { writeJsonFile } from "../utils/fileManager";
+import { booleanFlag, parseArgs, rangeFlag, stringFlag, UsageError, type FlagSpec, type ParsedArgs } from "./args";
+
+export const DIFF_FLAGS: FlagSpec[] = [
+  { name: "json", kind: "switch", value: "FILE", description: "Print JSON instead of text, or write it to FILE" },
+  { name: "visual", kind: "boolean", description: "Also pixel-compare matching steps and write diff images" },
+  { name: "threshold", kind: "string", value: "0..1", description: "Per-pixel colour threshold (default 0.1)" },
+  { name: "max-diff", kind: "string", value: "0..1", description: "Share of changed pixels that flags a step (default 0.01)" },
+  { name: "mask", kind: "string", value: "x,y,w,h;…", description: "Regions to ignore, in screenshot pixels" },
+  { name: "masks", kind: "string", value: "FILE", description: "JSON/YAML list of masks (optionally per funnel)" },
+  { name: "diff-dir", kind: "string", value: "DIR", description: "Where diff images go (default <AFTER>/visual-diff)" },
+  { name: "help", kind: "boolean", description: "Show this help" },
+];
+
+async function readMasks(args: ParsedArgs): Promise<MaskRect[]> {
+  const masks: MaskRect[] = [];
+  try {
+    const inline = stringFlag(args, "mask");
+    const file = stringFlag(args, "masks");
+    if (inline) masks.push(...parseMasks(inline));
+    if (file) masks.push(...(await loadMasksFile(file)));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  return masks;
+}
+
+/**
+ * `diff [BEFORE] [AFTER]`: compare two results folders or snapshots run by run.
+ * No arguments → previous vs latest snapshot; one argument → it vs the results folder.
+ */
+export async function diffCommand(argv: string[]): Promise<void> {
+  const args = parseArgs(argv, DIFF_FLAGS);
+  if (args.positionals.length > 2) throw new UsageError("diff takes at most two folders or snapshots.");
+  const refs =
+    args.positionals.length === 2
+      ? args.positionals
+      : args.positionals.length === 1
+        ? [args.positionals[0], RESULTS_DIR]
+        : ["previous", "latest"];
+  const [beforeRoot, afterRoot] = await Promise.all(
+    refs.map((ref) =>
+      resolveRunsDir(ref).catch((error: Error) => {
+        throw new UsageError(error.message);
+      }),
+    ),
+  );
+
+  const before = await loadRunSummaries(beforeRoot);
+  const after = await loadRunSummaries(afterRoot);
+  if (before.length === 0) throw new UsageError(`No run summaries found in ${beforeRoot}/.`);
+  if (after.length === 0) throw new UsageError(`No run summaries found in ${afterRoot}/.`);
+  const diff = diffRunSummaries(before, beforeRoot, after, afterRoot);
+
+  const visual = booleanFlag(args, "visual")
+    ? await diffScreenshots(before, beforeRoot, after, afterRoot, {
+        threshold: rangeFlag(args, "threshold", 0, 1) ?? VISUAL_DIFF_CONFIG.threshold,
+        maxDiffRatio: rangeFlag(args, "max-diff", 0, 1) ?? VISUAL_DIFF_CONFIG.maxDiffRatio,
+        masks: await readMasks(args),
+        outputDir: stringFlag(args, "diff-dir") ?? `${afterRoot}/${VISUAL_DIFF_CONFIG.diffDir}`,
+      })
+    : null;
+
+  const json = args.flags.get("json");
+  if (json === true) {
+    console.log(JSON.stringify(visual ? { ...diff, visual } : diff, null, 2));
+    return;
+  }
+  console.log(formatRunDiff(diff));
+  if (visual) console.log(`\nVisual:\n${formatVisualDiff(visual)}`);
+  if (json) {
+    await writeJsonFile(json, visual ? { ...diff, visual } : diff);
+    console.log(`JSON: ${json}`);
+  }
+}
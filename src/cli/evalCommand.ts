@@ -0,0 +1,77 @@
+import { EVAL_CONFIG } from "../config";
+import {
+  buildEvaluationReport,
+  classifySnapshot,
+  evaluationFailures,
+  formatEvaluation,
+  loadLabeledSnapshots,
+  type SnapshotResult,
+} from "../classifier/evaluation";
+import { defaultDevice, deviceContextOptions, resolveDevice } from "../runner/device";
+import { launchBrowser } from "../runner/pool";
+import { writeJsonFile } from "../utils/fileManager";
+import { booleanFlag, parseArgs, rangeFlag, stringFlag, UsageError, type FlagSpec } from "./args";
+
+export const EVAL_FLAGS: FlagSpec[] = [
+  { name: "min-accuracy", kind: "string", value: "0..1", description: `Fail below this accuracy (default ${EVAL_CONFIG.minAccuracy})` },
+  { name: "min-recall", kind: "string", value: "0..1", description: "Also fail when any labeled type's recall is below this" },
+  { name: "device", kind: "string", value: "NAME", description: "Playwright device the snapshots are rendered on" },
+  { name: "json", kind: "switch", value: "FILE", description: "Print JSON instead of text, or write it to FILE" },
+  { name: "headful", kind: "boolean", description: "Show the browser window" },
+  { name: "help", kind: "boolean", description: "Show this help" },
+];
+
+/**
+ * `eval DIR`: classify every labeled HTML snapshot in DIR offline and score the classifier.
+ * Sets exit code 1 when accuracy (or a type's recall) falls below the threshold.
+ */
+export async function evalCommand(argv: string[]): Promise<void> {
+  const args = parseArgs(argv, EVAL_FLAGS);
+  if (args.positionals.length !== 1) throw new UsageError("eval takes one folder of labeled snapshots.");
+  const dir = args.positionals[0].replace(/\/+$/, "");
+  const minAccuracy = rangeFlag(args, "min-accuracy", 0, 1) ?? EVAL_CONFIG.minAccuracy;
+  const minRecall = rangeFlag(args, "min-recall", 0, 1);
+  const deviceName = stringFlag(args, "device");
+  let device = defaultDevice();
+  try {
+    if (deviceName) device = resolveDevice(deviceName);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const snapshots = await loadLabeledSnapshots(dir, EVAL_CONFIG.defaultStep).catch((error: Error) => {
+    throw new UsageError(error.message);
+  });
+  if (snapshots.length === 0) throw new UsageError(`No labeled snapshots in ${dir}/.`);
+
+  const json = args.flags.get("json");
+  const browser = await launchBrowser(device, booleanFlag(args, "headful"));
+  const results: SnapshotResult[] = [];
+  try {
+    const context = await browser.newContext(deviceContextOptions(device));
+    for (const [index, snapshot] of snapshots.entries()) {
+      const result = await classifySnapshot(context, dir, snapshot);
+      results.push(result);
+      if (json !== true) {
+        const mark = result.actual === result.expected ? "ok  " : "MISS";
+        console.log(`[${index + 1}/${snapshots.length}] ${mark} ${snapshot.file}: ${result.actual}`);
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  const report = buildEvaluationReport(dir, results);
+  const failures = evaluationFailures(report, minAccuracy, minRecall);
+  if (json === true) {
+    console.log(JSON.stringify({ ...report, failures }, null, 2));
+  } else {
+    console.log(`\n${formatEvaluation(report)}`);
+    console.log(failures.length > 0 ? `\nFAIL: ${failures.join("; ")}` : `\nPASS (accuracy ≥ ${minAccuracy})`);
+    if (json) {
+      await writeJsonFile(json, { ...report, failures });
+      console.log(`JSON: ${json}`);
+    }
+  }
+  if (failures.length > 0) process.exitCode = 1;
+}
@@ -0,0 +1,63 @@
+import { RESULTS_DIR, RULES_FILE } from "../config";
+import { resolveRunsDir } from "../report/history";
+import { loadRunSummaries } from "../report/runIndex";
+import { BrowserPool } from "../runner/pool";
+import { changedSteps, failedSteps, formatReclassification, rebuildClassified, reclassifyRun, type ReclassifiedRun } from "../snapshot/reclassify";
+import { writeJsonFile } from "../utils/fileManager";
+import { booleanFlag, parseArgs, stringFlag, UsageError, type FlagSpec } from "./args";
+import { loadFunnelRules } from "./rulesFile";
+
+export const RECLASSIFY_FLAGS: FlagSpec[] = [
+  { name: "rules", kind: "string", value: "FILE", description: `Funnel rules file (default: ${RULES_FILE} if present)` },
+  { name: "rebuild-classified", kind: "boolean", description: "Recreate DIR/_classified from the new labels" },
+  { name: "json", kind: "switch", value: "FILE", description: "Print JSON instead of text, or write it to FILE" },
+  { name: "help", kind: "boolean", description: "Show this help" },
+];
+
+/**
+ * `reclassify [DIR]`: run the archived step snapshots (snapshots/ of every run in DIR) through the
+ * current classifyScreen without network access and list the steps whose type changes.
+ */
+export async function reclassifyCommand(argv: string[]): Promise<void> {
+  const args = parseArgs(argv, RECLASSIFY_FLAGS);
+  if (args.positionals.length > 1) throw new UsageError("reclassify takes at most one results folder or snapshot.");
+  const root = await resolveRunsDir(args.positionals[0] ?? RESULTS_DIR).catch((error: Error) => {
+    throw new UsageError(error.message);
+  });
+  const summaries = await loadRunSummaries(root);
+  if (summaries.length === 0) throw new UsageError(`No run summaries found in ${root}/.`);
+  const rulesPath = stringFlag(args, "rules");
+  const rules = await loadFunnelRules(rulesPath ?? RULES_FILE, rulesPath === undefined);
+
+  const json = args.flags.get("json");
+  const browsers = new BrowserPool();
+  const runs: ReclassifiedRun[] = [];
+  try {
+    for (const summary of summaries) {
+      const run = await reclassifyRun(browsers, summary.funnelDir, rules);
+      runs.push(run);
+      if (json !== true && run.steps) {
+        const failed = failedSteps(run).length;
+        console.log(
+          `${summary.funnelDir}: ${run.steps.length} step(s), ${changedSteps(run).length} changed${failed > 0 ? `, ${failed} failed` : ""}`,
+        );
+      }
+    }
+  } finally {
+    await browsers.close();
+  }
+
+  if (json === true) {
+    console.log(JSON.stringify(runs, null, 2));
+  } else {
+    console.log(`\n${formatReclassification(root, runs)}`);
+    if (json) {
+      await writeJsonFile(json, runs);
+      console.log(`JSON: ${json}`);
+    }
+  }
+  if (booleanFlag(args, "rebuild-classified")) {
+    const copied = await rebuildClassified(root, summaries, runs);
+    if (json !== true) console.log(`Rebuilt ${root}/_classified (${copied} screenshots).`);
+  }
+}
@@ -0,0 +1,25 @@
+import { RESULTS_DIR } from "../config";
+import { writeHtmlReport } from "../report/htmlReport";
+import { loadRunSummaries, writeRunIndex } from "../report/runIndex";
+import { booleanFlag, parseArgs, UsageError, type FlagSpec } from "./args";
+
+export const REPORT_FLAGS: FlagSpec[] = [
+  { name: "link-images", kind: "boolean", description: "Link screenshots instead of inlining them (smaller report.html)" },
+  { name: "help", kind: "boolean", description: "Show this help" },
+];
+
+/**
+ * `report [DIR]`: rebuild DIR/summary.json from the per-run summaries already on disk
+ * (e.g. after several partial runs into the same folder) and write DIR/report.html.
+ */
+export async function reportCommand(argv: string[]): Promise<void> {
+  const args = parseArgs(argv, REPORT_FLAGS);
+  if (args.positionals.length > 1) throw new UsageError("report takes at most one results folder.");
+  const root = (args.positionals[0] ?? RESULTS_DIR).replace(/\/+$/, "");
+  const summaries = await loadRunSummaries(root);
+  if (summaries.length === 0) throw new UsageError(`No run summaries found in ${root}/.`);
+  const indexPath = await writeRunIndex(root, summaries);
+  const reportPath = await writeHtmlReport(root, summaries, { embedImages: !booleanFlag(args, "link-images") });
+  console.log(`Collected ${summaries.length} run(s) into ${indexPath}.`);
+  console.log(`HTML report: ${reportPath}`);
+}
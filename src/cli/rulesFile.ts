@@ -0,0 +1,132 @@
+import { access, readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { SCREEN_TYPES, type ScreenType } from "../classifier/classifyScreen";
+import { textMatcher, type FunnelRule, type ScreenMatch, type ScreenRule } from "../rules/funnelRules";
+import { ConfigError, describe, Validator } from "./configFile";
+
+const RULE_KEYS = ["match", "ignore", "waitMs", "ctaSelectors", "paywallMarker", "screens"];
+const SCREEN_RULE_KEYS = ["when", "type", "answer", "cta", "waitMs"];
+const MATCH_KEYS = ["selector", "text", "path"];
+
+/** CSS selectors: a list, or one selector. Not comma-split — selectors contain commas themselves. */
+function selectorList(validator: Validator, path: string, value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  const items = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(items) || items.length === 0 || items.some((item) => typeof item !== "string" || item.trim() === "")) {
+    return validator.error(path, `expected a list of CSS selectors, got ${describe(value)}.`);
+  }
+  return items.map((item: string) => item.trim());
+}
+
+function nonNegativeInteger(validator: Validator, path: string, value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    return validator.error(path, `expected milliseconds (integer ≥ 0), got ${describe(value)}.`);
+  }
+  return value;
+}
+
+function textPattern(validator: Validator, path: string, value: unknown): string | undefined {
+  const text = validator.string(path, value);
+  if (text) validator.check(path, () => textMatcher(text));
+  return text;
+}
+
+function validateMatch(validator: Validator, path: string, value: unknown): ScreenMatch | undefined {
+  const raw = validator.object(path, value, MATCH_KEYS);
+  if (!raw) return undefined;
+  const match: ScreenMatch = {};
+  const selector = validator.string(`${path}.selector`, raw.selector);
+  const text = textPattern(validator, `${path}.text`, raw.text);
+  const urlPath = validator.string(`${path}.path`, raw.path);
+  if (selector) match.selector = selector;
+  if (text) match.text = text;
+  if (urlPath) match.path = urlPath;
+  if (!selector && !text && !urlPath) return validator.error(path, "needs at least one of selector, text, path.");
+  return match;
+}
+
+function validateScreenRule(validator: Validator, path: string, value: unknown): ScreenRule | undefined {
+  const raw = validator.object(path, value, SCREEN_RULE_KEYS);
+  if (!raw) return undefined;
+  const when = raw.when === undefined ? validator.error(`${path}.when`, "is required.") : validateMatch(validator, `${path}.when`, raw.when);
+  const type = validator.string(`${path}.type`, raw.type);
+  if (type && !SCREEN_TYPES.includes(type as ScreenType)) {
+    validator.error(`${path}.type`, `expected ${SCREEN_TYPES.join(", ")}, got "${type}".`);
+  }
+  const answer = textPattern(validator, `${path}.answer`, raw.answer);
+  const cta = selectorList(validator, `${path}.cta`, raw.cta);
+  const waitMs = nonNegativeInteger(validator, `${path}.waitMs`, raw.waitMs);
+  if (!when) return undefined;
+  const rule: ScreenRule = { when };
+  if (type && SCREEN_TYPES.includes(type as ScreenType)) rule.type = type as ScreenType;
+  if (answer) rule.answer = answer;
+  if (cta) rule.cta = cta;
+  if (waitMs !== undefined) rule.waitMs = waitMs;
+  return rule;
+}
+
+function validateRule(validator: Validator, path: string, value: unknown): FunnelRule | undefined {
+  const raw = validator.object(path, value, RULE_KEYS);
+  if (!raw) return undefined;
+  const match = validator.string(`${path}.match`, raw.match);
+  if (raw.match === undefined) validator.error(`${path}.match`, 'is required, e.g. "coursiv.io" or "coursiv.io/dynamic*".');
+  const rule: FunnelRule = { match: match ?? "" };
+  const ignore = selectorList(validator, `${path}.ignore`, raw.ignore);
+  const waitMs = nonNegativeInteger(validator, `${path}.waitMs`, raw.waitMs);
+  const ctaSelectors = selectorList(validator, `${path}.ctaSelectors`, raw.ctaSelectors);
+  const paywallMarker = raw.paywallMarker === undefined ? undefined : validateMatch(validator, `${path}.paywallMarker`, raw.paywallMarker);
+  if (ignore) rule.ignore = ignore;
+  if (waitMs !== undefined) rule.waitMs = waitMs;
+  if (ctaSelectors) rule.ctaSelectors = ctaSelectors;
+  if (paywallMarker) rule.paywallMarker = paywallMarker;
+  if (raw.screens !== undefined) {
+    if (!Array.isArray(raw.screens)) {
+      validator.error(`${path}.screens`, `expected a list of { when, type, answer, cta, waitMs }, got ${describe(raw.screens)}.`);
+    } else {
+      rule.screens = raw.screens
+        .map((item, index) => validateScreenRule(validator, `${path}.screens[${index}]`, item))
+        .filter((item): item is ScreenRule => item !== undefined);
+    }
+  }
+  return match ? rule : undefined;
+}
+
+/**
+ * Check a parsed rules file ({ rules: [...] }). All problems are reported at once.
+ */
+export function validateFunnelRules(raw: unknown, source: string): FunnelRule[] {
+  const validator = new Validator();
+  const file = validator.object("", raw ?? {}, ["rules"]) ?? {};
+  let rules: FunnelRule[] = [];
+  if (!Array.isArray(file.rules)) {
+    validator.error("rules", `expected a list of rules, got ${describe(file.rules)}.`);
+  } else {
+    rules = file.rules
+      .map((item, index) => validateRule(validator, `rules[${index}]`, item))
+      .filter((item): item is FunnelRule => item !== undefined);
+  }
+  if (validator.errors.length > 0) {
+    throw new ConfigError(`Invalid rules file ${source}:\n${validator.errors.map((line) => `  - ${line}`).join("\n")}`);
+  }
+  return rules;
+}
+
+/**
+ * Read a .json / .yaml / .yml rules file. `optional` → a missing file means no rules.
+ */
+export async function loadFunnelRules(path: string, optional = false): Promise<FunnelRule[]> {
+  if (optional && !(await access(path).then(() => true, () => false))) return [];
+  const text = await readFile(path, "utf8").catch(() => {
+    throw new ConfigError(`Rules file ${path} not found.`);
+  });
+  let parsed: unknown;
+  try {
+    parsed = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Invalid rules file ${path}: cannot parse (${message}).`);
+  }
+  return validateFunnelRules(parsed, path);
+}
@@ -0,0 +1,398 @@
+import {
+  ARTIFACT_CONFIG,
+  DEFAULT_ANSWER_STRATEGY,
+  DEFAULT_DEVICE,
+  DEFAULT_PERSONA,
+  FUNNEL_ANSWER_STRATEGIES,
+  FUNNEL_URLS,
+  RULES_FILE,
+  RUN_CONFIG,
+} from "../config";
+import { recordFailedRun, runFunnel, type FunnelRunSummary, type RunOptions, type RunSettings } from "../runner/runFunnel";
+import { exploreFunnel, type ExploreOptions } from "../runner/exploreFunnel";
+import { parseAnswerStrategy, personaStrategy } from "../navigator/answerStrategy";
+import { loadPersona, loadPersonas } from "../persona/persona";
+import { parseGeolocation, resolveEmulation, type EmulationSettings } from "../runner/emulation";
+import { isBrowserEngine, parseViewport, resolveDevice, type BrowserEngine, type DeviceSettings } from "../runner/device";
+import { BrowserPool, runPool } from "../runner/pool";
+import { parseArtifactKinds, parseRetentionMode, type ArtifactSettings } from "../runner/artifacts";
+import { writeLocaleComparison } from "../report/localeMatrix";
+import { writeRunIndex } from "../report/runIndex";
+import { saveSnapshot } from "../report/history";
+import { loadReplayFile, REPLAY_STRATEGY, ReplayCursor } from "../replay/replayer";
+import { resultsDir, sanitize, setResultsDir } from "../utils/fileManager";
+import { prefixedConsole } from "../utils/logger";
+import { booleanFlag, numberFlag, parseArgs, rangeFlag, stringFlag, UsageError, type FlagSpec, type ParsedArgs } from "./args";
+import { loadRunnerConfig, type FunnelConfig, type RunnerConfig } from "./configFile";
+import { loadFunnelRules } from "./rulesFile";
+
+export const RUN_FLAGS: FlagSpec[] = [
+  { name: "config", kind: "string", value: "FILE", description: "JSON/YAML config file (or CONFIG env)" },
+  { name: "output", kind: "string", value: "DIR", description: "Results folder (default: results)" },
+  { name: "concurrency", kind: "number", value: "N", description: "Funnels run in parallel (or CONCURRENCY env)" },
+  { name: "limit", kind: "number", value: "N", description: "Run only the first N URLs (or LIMIT env)" },
+  { name: "max-steps", kind: "number", value: "N", description: "Step limit before the email screen" },
+  { name: "same-dom-limit", kind: "number", value: "N", description: "Steps on the same screen before loop stop" },
+  { name: "loop-similarity", kind: "string", value: "0..1", description: "Fingerprint similarity that counts as the same screen" },
+  { name: "timeout", kind: "number", value: "MS", description: "Default action/navigation timeout" },
+  { name: "nav-timeout", kind: "number", value: "MS", description: "Timeout of the networkidle page.goto retry" },
+  { name: "headful", kind: "boolean", description: "Show the browser window (or HEADFUL=true)" },
+  { name: "answer", kind: "string", value: "SPEC", description: "first | last | index:N | random:SEED | match:/re/ | avoid-disqualifying" },
+  { name: "persona", kind: "string", value: "IDS", description: "Persona id, file or comma-separated list" },
+  { name: "device", kind: "string", value: "NAME", description: "Playwright device name or custom" },
+  { name: "devices", kind: "string", value: "LIST", description: "Device matrix, comma-separated" },
+  { name: "engine", kind: "string", value: "ENGINE", description: "chromium | webkit | firefox" },
+  { name: "safari", kind: "boolean", description: "Same as --engine=webkit" },
+  { name: "firefox", kind: "boolean", description: "Same as --engine=firefox" },
+  { name: "viewport", kind: "string", value: "WxH", description: "Viewport override, e.g. 390x844" },
+  { name: "dpr", kind: "string", value: "N", description: "Device scale factor override" },
+  { name: "user-agent", kind: "string", value: "UA", description: "User agent override" },
+  { name: "locale", kind: "string", value: "TAG", description: "Locale, e.g. de-DE" },
+  { name: "locales", kind: "string", value: "LIST", description: "Locale matrix, comma-separated" },
+  { name: "timezone", kind: "string", value: "TZ", description: "Timezone id, e.g. Europe/Berlin" },
+  { name: "geo", kind: "string", value: "LAT,LON", description: "Geolocation" },
+  { name: "accept-language", kind: "string", value: "VALUE", description: "Accept-Language header" },
+  { name: "explore", kind: "switch", value: "bfs|dfs", description: "Explore answer branches instead of one run" },
+  { name: "explore-depth", kind: "number", value: "N", description: "Branch on the first N answers" },
+  { name: "explore-branches", kind: "number", value: "N", description: "Options tried per question" },
+  { name: "explore-runs", kind: "number", value: "N", description: "Browser runs per funnel" },
+  { name: "capture", kind: "string", value: "LIST", description: "Record trace,har,video (or all) per funnel" },
+  { name: "retain", kind: "string", value: "MODE", description: "Keep recordings: always | on-failure | no-paywall" },
+  { name: "rules", kind: "string", value: "FILE", description: `Per-funnel rules file (default: ${RULES_FILE} if present)` },
+  { name: "replay", kind: "string", value: "FILE", description: "Follow a recorded replay.json instead of the heuristics" },
+  { name: "snapshot", kind: "switch", value: "NAME", description: "Copy the results into history/ after the run" },
+  { name: "help", kind: "boolean", description: "Show this help" },
+];
+
+/** Run a domain parser on a flag value; its error becomes a UsageError naming the flag. */
+function parseFlag<T>(flag: string, parser: (raw: string) => T, raw: string): T {
+  try {
+    return parser(raw);
+  } catch (error) {
+    throw new UsageError(`--${flag}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseFunnelUrl(raw: string): string {
+  let protocol = "";
+  try {
+    protocol = new URL(raw).protocol;
+  } catch {
+    throw new UsageError(`"${raw}" is not a URL. Pass funnel URLs as http(s)://… arguments.`);
+  }
+  if (protocol !== "http:" && protocol !== "https:") throw new UsageError(`"${raw}" must be an http(s) URL.`);
+  return raw;
+}
+
+/**
+ * --explore[=bfs|dfs] --explore-depth=N --explore-branches=N --explore-runs=N
+ */
+function readExploreOptions(args: ParsedArgs): Partial<ExploreOptions> | null {
+  const flag = args.flags.get("explore");
+  if (flag === undefined) return null;
+  const order = flag === true ? "bfs" : flag;
+  if (order !== "bfs" && order !== "dfs") {
+    throw new UsageError(`--explore must be "bfs" or "dfs", got "${order}".`);
+  }
+  const options: Partial<ExploreOptions> = { order };
+  const maxDepth = numberFlag(args, "explore-depth");
+  const maxBranches = numberFlag(args, "explore-branches");
+  const maxRuns = numberFlag(args, "explore-runs");
+  if (maxDepth !== undefined) options.maxDepth = maxDepth;
+  if (maxBranches !== undefined) options.maxBranches = maxBranches;
+  if (maxRuns !== undefined) options.maxRuns = maxRuns;
+  return options;
+}
+
+/**
+ * --locale=de-DE or --locales=en-US,de-DE,pt-BR (matrix), plus --timezone=, --geo=lat,lon, --accept-language=
+ * applied on top of every locale. No flags → browser defaults.
+ */
+function readEmulations(args: ParsedArgs, config: RunnerConfig): Array<EmulationSettings | undefined> {
+  const timezoneId = stringFlag(args, "timezone") ?? config.timezone;
+  const geo = stringFlag(args, "geo") ?? config.geo;
+  const acceptLanguage = stringFlag(args, "accept-language") ?? config.acceptLanguage;
+  const localeList =
+    stringFlag(args, "locales") ?? stringFlag(args, "locale") ?? process.env.LOCALE ?? config.locales?.join(",");
+  if (!localeList && !timezoneId && !geo && !acceptLanguage) return [undefined];
+
+  const locales = (localeList ?? "en-US").split(",").map((item) => item.trim()).filter(Boolean);
+  const geolocation = geo ? parseFlag("geo", parseGeolocation, geo) : undefined;
+  return locales.map((locale) => {
+    const settings = parseFlag("locale", resolveEmulation, locale);
+    if (timezoneId) settings.timezoneId = timezoneId;
+    if (geolocation) settings.geolocation = geolocation;
+    if (acceptLanguage) settings.acceptLanguage = acceptLanguage;
+    return settings;
+  });
+}
+
+/**
+ * --device="Pixel 7" or --devices="iPhone 13,Pixel 7,Desktop Chrome" (matrix);
+ * --engine=chromium|webkit|firefox (or --safari / --firefox), --viewport=390x844, --dpr=3, --user-agent=
+ * apply to every device.
+ */
+function readDevices(args: ParsedArgs, config: RunnerConfig): DeviceSettings[] {
+  const engineFlag = stringFlag(args, "engine");
+  let engine: BrowserEngine = config.engine ?? "chromium";
+  if (engineFlag !== undefined) {
+    if (!isBrowserEngine(engineFlag)) {
+      throw new UsageError(`--engine must be chromium, webkit or firefox, got "${engineFlag}".`);
+    }
+    engine = engineFlag;
+  } else if (booleanFlag(args, "safari")) {
+    engine = "webkit";
+  } else if (booleanFlag(args, "firefox")) {
+    engine = "firefox";
+  }
+
+  const overrides: Partial<Omit<DeviceSettings, "name">> = { engine };
+  const viewport = stringFlag(args, "viewport") ?? config.viewport;
+  const dpr = stringFlag(args, "dpr");
+  const userAgent = stringFlag(args, "user-agent") ?? config.userAgent;
+  if (viewport) overrides.viewport = parseFlag("viewport", parseViewport, viewport);
+  if (dpr !== undefined) {
+    const value = Number(dpr);
+    if (!Number.isFinite(value) || value <= 0) throw new UsageError(`--dpr must be a positive number, got "${dpr}".`);
+    overrides.deviceScaleFactor = value;
+  } else if (config.dpr !== undefined) {
+    overrides.deviceScaleFactor = config.dpr;
+  }
+  if (userAgent) overrides.userAgent = userAgent;
+
+  const names =
+    stringFlag(args, "devices") ??
+    stringFlag(args, "device") ??
+    process.env.DEVICE ??
+    config.devices?.join(",") ??
+    DEFAULT_DEVICE;
+  return names
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => parseFlag("device", (raw) => resolveDevice(raw, overrides), name));
+}
+
+/**
+ * --capture=trace,har,video|all --retain=always|on-failure|no-paywall. Nothing to capture → undefined.
+ */
+function readArtifactSettings(args: ParsedArgs, config: RunnerConfig): ArtifactSettings | undefined {
+  const captureFlag = stringFlag(args, "capture") ?? process.env.CAPTURE;
+  const capture = captureFlag ? parseFlag("capture", parseArtifactKinds, captureFlag) : config.capture ?? [];
+  const retainFlag = stringFlag(args, "retain");
+  const retain = retainFlag ? parseFlag("retain", parseRetentionMode, retainFlag) : config.retain ?? ARTIFACT_CONFIG.retain;
+  return capture.length > 0 ? { capture, retain } : undefined;
+}
+
+/** RUN_CONFIG overrides given on the command line; they win over per-funnel values from the config file. */
+function readRunSettings(args: ParsedArgs): Partial<RunSettings> {
+  const settings: Partial<RunSettings> = {};
+  const maxSteps = numberFlag(args, "max-steps");
+  const sameDomHashLimit = numberFlag(args, "same-dom-limit");
+  const loopSimilarity = rangeFlag(args, "loop-similarity", 0, 1);
+  const defaultTimeoutMs = numberFlag(args, "timeout");
+  const navigationTimeoutMs = numberFlag(args, "nav-timeout");
+  if (maxSteps !== undefined) settings.maxSteps = maxSteps;
+  if (sameDomHashLimit !== undefined) settings.sameDomHashLimit = sameDomHashLimit;
+  if (loopSimilarity !== undefined) settings.loopSimilarity = loopSimilarity;
+  if (defaultTimeoutMs !== undefined) settings.defaultTimeoutMs = defaultTimeoutMs;
+  if (navigationTimeoutMs !== undefined) settings.navigationTimeoutMs = navigationTimeoutMs;
+  return settings;
+}
+
+/**
+ * URLs from the command line, else from the config file, else FUNNEL_URLS.
+ * A command-line URL that is also listed in the config keeps its per-funnel overrides.
+ */
+function resolveFunnels(args: ParsedArgs, config: RunnerConfig): FunnelConfig[] {
+  const configured = config.funnels ?? [];
+  if (args.positionals.length > 0) {
+    return args.positionals.map((raw) => {
+      const url = parseFunnelUrl(raw);
+      return configured.find((funnel) => funnel.url === url) ?? { url };
+    });
+  }
+  return configured.length > 0 ? configured : FUNNEL_URLS.map((url) => ({ url }));
+}
+
+/**
+ * --replay=results/<funnel>/replay.json: one run on the recorded device and locale, along the recorded actions.
+ * Results go to <funnel>/replay/ so the original run stays for comparison.
+ */
+async function runReplay(
+  path: string,
+  options: Pick<RunOptions, "artifacts" | "headful" | "rules"> & { settingsFor: (url: string) => Partial<RunSettings> },
+): Promise<FunnelRunSummary> {
+  let cursor: ReplayCursor;
+  try {
+    cursor = new ReplayCursor(await loadReplayFile(path), path);
+  } catch (error) {
+    throw new UsageError(`--replay: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const { file } = cursor;
+  const persona = await loadPersona(file.persona).catch(() => ({ ...DEFAULT_PERSONA, id: file.persona }));
+  console.log(`Replaying ${cursor.total} recorded steps of ${file.url} (recorded ${file.recordedAt})...`);
+  const summary = await runFunnel(file.url, {
+    artifacts: options.artifacts,
+    headful: options.headful,
+    rules: options.rules,
+    settings: options.settingsFor(file.url),
+    answerStrategy: REPLAY_STRATEGY,
+    persona,
+    device: file.device,
+    emulation: file.emulation ?? undefined,
+    variant: "replay",
+    replay: cursor,
+  });
+  const divergence = summary.replay?.divergence;
+  console.log(
+    divergence
+      ? `DIVERGED after ${cursor.replayed}/${cursor.total} steps: ${divergence}`
+      : `Replayed ${cursor.replayed}/${cursor.total} steps, stop: ${summary.stopReason}.`,
+  );
+  if (divergence) process.exitCode = 1;
+  return summary;
+}
+
+export async function runCommand(argv: string[]): Promise<void> {
+  const args = parseArgs(argv, RUN_FLAGS);
+  const configPath = stringFlag(args, "config") ?? process.env.CONFIG;
+  const config = configPath ? await loadRunnerConfig(configPath) : {};
+  if (configPath) console.log(`Config: ${configPath}`);
+
+  setResultsDir(stringFlag(args, "output") ?? config.outputDir ?? resultsDir());
+  const headful = booleanFlag(args, "headful") || process.env.HEADFUL === "true" || (config.headful ?? false);
+  const runAnswerSpec =
+    stringFlag(args, "answer") ?? process.env.ANSWER_STRATEGY ?? config.answer ?? DEFAULT_ANSWER_STRATEGY;
+  // Fail fast on a typo instead of after the first funnel
+  parseFlag("answer", parseAnswerStrategy, runAnswerSpec);
+  // --persona=anna or --persona=default,anna,mike to sweep several personas over every URL
+  const personas = await loadPersonas(
+    stringFlag(args, "persona") ?? process.env.PERSONA ?? config.personas?.join(",") ?? "default",
+  ).catch((error: Error) => {
+    throw new UsageError(`--persona: ${error.message}`);
+  });
+  const sweepPersonas = personas.length > 1;
+  const emulations = readEmulations(args, config);
+  const localeMatrix = emulations.length > 1;
+  const devices = readDevices(args, config);
+  const deviceMatrix = devices.length > 1;
+  const exploreOptions = readExploreOptions(args);
+  if (exploreOptions && (deviceMatrix || localeMatrix)) {
+    // Explore trees are stored per persona only; a matrix would overwrite them
+    throw new UsageError("--explore runs on one device and locale: drop the --devices/--locales matrix or explore each entry separately.");
+  }
+  const cliSettings = readRunSettings(args);
+  const artifacts = readArtifactSettings(args, config);
+  const rulesPath = stringFlag(args, "rules") ?? config.rules;
+  const rules = await loadFunnelRules(rulesPath ?? RULES_FILE, rulesPath === undefined);
+  if (rules.length > 0) console.log(`Rules: ${rulesPath ?? RULES_FILE} (${rules.length})`);
+  const settingsFor = (funnel: FunnelConfig): Partial<RunSettings> => ({
+    ...config.runConfig,
+    ...funnel.runConfig,
+    ...cliSettings,
+  });
+
+  const replayPath = stringFlag(args, "replay");
+  if (replayPath) {
+    const settingsForUrl = (url: string) => settingsFor((config.funnels ?? []).find((item) => item.url === url) ?? { url });
+    await runReplay(replayPath, { artifacts, headful, rules, settingsFor: settingsForUrl });
+    return;
+  }
+
+  const allFunnels = resolveFunnels(args, config);
+  const limit = numberFlag(args, "limit", "LIMIT") ?? config.limit ?? RUN_CONFIG.maxFunnels;
+  const funnels = limit > 0 ? allFunnels.slice(0, limit) : allFunnels;
+  if (funnels.length < allFunnels.length) {
+    console.log(`Limiting to the first ${funnels.length} of ${allFunnels.length} funnels (--limit).`);
+  }
+  const concurrency = numberFlag(args, "concurrency", "CONCURRENCY") ?? config.concurrency ?? RUN_CONFIG.concurrency;
+  const browsers = new BrowserPool(headful);
+  let summaries: FunnelRunSummary[] = [];
+
+  try {
+    if (exploreOptions) {
+      const jobs = funnels.flatMap((funnel) => personas.map((persona) => ({ funnel, persona })));
+      console.log(`Exploring ${funnels.length} funnels with ${concurrency} worker(s)...`);
+      await runPool(jobs, concurrency, async ({ funnel, persona }, index, worker) => {
+        const log = prefixedConsole(concurrency > 1 ? `[w${worker}]` : "");
+        log(`[${index + 1}/${jobs.length}] ${funnel.url}`);
+        const device = devices[0];
+        try {
+          await exploreFunnel(funnel.url, exploreOptions, {
+            persona,
+            emulation: emulations[0],
+            device,
+            settings: settingsFor(funnel),
+            artifacts,
+            rules,
+            browser: await browsers.get(device),
+            log,
+          });
+        } catch (error) {
+          log(`  -> Explore failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+      console.log(`Done. Check ${resultsDir()}/<funnel>/explore/tree.json.`);
+      return;
+    }
+
+    const jobs: Array<RunOptions & { url: string; device: DeviceSettings }> = [];
+    for (const funnel of funnels) {
+      const baseStrategy = parseAnswerStrategy(funnel.answer ?? FUNNEL_ANSWER_STRATEGIES[funnel.url] ?? runAnswerSpec);
+      for (const persona of personas) {
+        const answerStrategy = persona.id === "default" ? baseStrategy : personaStrategy(persona, baseStrategy);
+        for (const device of devices) {
+          for (const emulation of emulations) {
+            const variantParts = [
+              deviceMatrix ? `device-${sanitize(device.name)}` : "",
+              sweepPersonas ? `persona-${sanitize(persona.id)}` : "",
+              localeMatrix && emulation ? `locale-${sanitize(emulation.locale)}` : "",
+            ].filter(Boolean);
+            jobs.push({
+              url: funnel.url,
+              answerStrategy,
+              persona,
+              emulation,
+              device,
+              settings: settingsFor(funnel),
+              artifacts,
+              rules,
+              variant: variantParts.length > 0 ? variantParts.join("/") : undefined,
+            });
+          }
+        }
+      }
+    }
+
+    console.log(`Running ${funnels.length} funnels (${jobs.length} runs) with ${concurrency} worker(s)...`);
+    summaries = await runPool(jobs, concurrency, async ({ url, ...options }, index, worker) => {
+      const log = prefixedConsole(concurrency > 1 ? `[w${worker}]` : "");
+      log(`[${index + 1}/${jobs.length}] ${url}`);
+      try {
+        return await runFunnel(url, { ...options, browser: await browsers.get(options.device), log });
+      } catch (error) {
+        // A run that throws must not reject the pool: other workers still use the shared browsers
+        log(`  -> Run failed: ${error instanceof Error ? error.message : String(error)}`);
+        return recordFailedRun(url, options, error);
+      }
+    });
+  } finally {
+    await browsers.close();
+  }
+
+  if (localeMatrix) {
+    for (const funnel of funnels) {
+      const reportPath = await writeLocaleComparison(funnel.url, summaries.filter((item) => item.url === funnel.url));
+      console.log(`  -> Locale comparison: ${reportPath}`);
+    }
+  }
+
+  await writeRunIndex(resultsDir(), summaries, devices);
+  const snapshot = args.flags.get("snapshot");
+  if (snapshot !== undefined) {
+    const snapshotDir = await saveSnapshot(resultsDir(), snapshot === true ? undefined : snapshot);
+    console.log(`Snapshot: ${snapshotDir}`);
+  }
+  console.log(`Done. Check ${resultsDir()}/ folder.`);
+}
@@ -1,3 +1,6 @@
+import type { Persona } from "./persona/persona";
+import type { EmulationSettings } from "./runner/emulation";
+
 export const FUNNEL_URLS: string[] = [
   "https://coursiv.io/dynamic?prc_id=1069",
   "https://coursiv.io/dynamic",
@@ -6,17 +9,103 @@ export const FUNNEL_URLS: string[] = [
   "https://dance-bit.com/welcomeBellyRef",
 ]; // Можно добавить сразу несколько ссылок для тестирования в кавычках через запятую
 
+// Устройство по умолчанию (имя дескриптора Playwright); другие — через --device / --devices
+export const DEFAULT_DEVICE = "iPhone 13";
+
 export const RUN_CONFIG = {
   maxSteps: 60,
   sameDomHashLimit: 12,
+  // Насколько похожими (0..1, по видимому тексту и состоянию кнопок/полей) должны быть экраны, чтобы считаться одним и тем же
+  loopSimilarity: 0.95,
   actionRetryCount: 1,
   defaultTimeoutMs: 20_000,
+  // Таймаут повторного page.goto (networkidle), если первая попытка не успела
+  navigationTimeoutMs: 25_000,
+  // Сколько воронок гоняем параллельно (--concurrency=N / CONCURRENCY)
+  concurrency: 1,
+  // Ограничение на число URL за запуск, 0 = без ограничения (--limit=N / LIMIT)
+  maxFunnels: 0,
 } as const;
 
-export const INPUT_DEFAULTS = {
+// Персона по умолчанию (--persona=default). Другие персоны — файлы в PERSONA_DIR: --persona=anna или --persona=anna,john
+export const DEFAULT_PERSONA: Persona = {
+  id: "default",
   name: "John",
-  height: "170",
-  weight: "65",
-  age: "30",
   email: "test@example.com",
+  gender: "male",
+  age: 30,
+  dateOfBirth: "1996-01-15",
+  height: { cm: 170, ft: 5, in: 7 },
+  weight: { kg: 65, lbs: 143 },
+  targetWeight: { kg: 60, lbs: 132 },
+  goal: "lose weight",
+};
+
+export const PERSONA_DIR = "personas";
+
+// Куда пишутся результаты (--output=DIR или outputDir в конфиге)
+export const RESULTS_DIR = "results";
+
+// Снимки прогонов для сравнения (run --snapshot, diff <snapshot> <snapshot>)
+export const HISTORY_DIR = "history";
+
+export const VISUAL_DIFF_CONFIG = {
+  // Чувствительность pixelmatch к цвету одного пикселя (0..1, меньше — строже)
+  threshold: 0.1,
+  // Доля отличающихся пикселей, после которой шаг считается изменённым
+  maxDiffRatio: 0.01,
+  // Папка diff-картинок внутри папки "после"
+  diffDir: "visual-diff",
+} as const;
+
+// Запись trace/HAR/видео (--capture=trace,har,video): когда сохранять — always | on-failure | no-paywall (--retain)
+export const ARTIFACT_CONFIG = {
+  retain: "on-failure",
+} as const;
+
+// Проверка классификатора на размеченных снимках (npm run eval -- DIR)
+export const EVAL_CONFIG = {
+  // Ниже этой точности команда завершается с ошибкой (--min-accuracy)
+  minAccuracy: 0.9,
+  // Номер шага, если он не указан в разметке: пороги paywall зависят от шага
+  defaultStep: 2,
 } as const;
+
+// Правила для отдельных воронок (баннеры, CTA, ответы, маркер пейвола). Подхватывается, если файл существует; другой — через --rules
+export const RULES_FILE = "funnel-rules.yaml";
+
+// Стратегия выбора ответа на question-экранах: first | last | index:N | random:SEED | match:/regex/i | avoid-disqualifying
+export const DEFAULT_ANSWER_STRATEGY = "first";
+
+// Стратегия для отдельных воронок (ключ — URL из FUNNEL_URLS/CLI), приоритетнее --answer
+export const FUNNEL_ANSWER_STRATEGIES: Record<string, string> = {};
+
+// Режим исследования веток (--explore): порядок обхода и бюджет
+export const EXPLORE_CONFIG = {
+  order: "bfs",
+  maxDepth: 3,
+  maxBranches: 3,
+  maxRuns: 12,
+} as const;
+
+// Разбор цен: базовая валюта для сравнения и локальный файл курсов (1 base = N валюты)
+export const PRICE_CONFIG = {
+  baseCurrency: "USD",
+  ratesFile: "rates.json",
+} as const;
+
+// Пресеты локалей для --locale / --locales: часовой пояс и геолокация столицы/крупного города
+export const LOCALE_PRESETS: Record<string, Omit<EmulationSettings, "locale">> = {
+  "en-US": { timezoneId: "America/New_York", geolocation: { latitude: 40.7128, longitude: -74.006 } },
+  "en-GB": { timezoneId: "Europe/London", geolocation: { latitude: 51.5074, longitude: -0.1278 } },
+  "de-DE": { timezoneId: "Europe/Berlin", geolocation: { latitude: 52.52, longitude: 13.405 } },
+  "fr-FR": { timezoneId: "Europe/Paris", geolocation: { latitude: 48.8566, longitude: 2.3522 } },
+  "es-ES": { timezoneId: "Europe/Madrid", geolocation: { latitude: 40.4168, longitude: -3.7038 } },
+  "it-IT": { timezoneId: "Europe/Rome", geolocation: { latitude: 41.9028, longitude: 12.4964 } },
+  "pl-PL": { timezoneId: "Europe/Warsaw", geolocation: { latitude: 52.2297, longitude: 21.0122 } },
+  "de-CH": { timezoneId: "Europe/Zurich", geolocation: { latitude: 47.3769, longitude: 8.5417 } },
+  "pt-BR": { timezoneId: "America/Sao_Paulo", geolocation: { latitude: -23.5505, longitude: -46.6333 } },
+  "es-MX": { timezoneId: "America/Mexico_City", geolocation: { latitude: 19.4326, longitude: -99.1332 } },
+  "hi-IN": { timezoneId: "Asia/Kolkata", geolocation: { latitude: 28.6139, longitude: 77.209 } },
+  "ja-JP": { timezoneId: "Asia/Tokyo", geolocation: { latitude: 35.6762, longitude: 139.6503 } },
+};
@@ -1,39 +1,96 @@
 import "dotenv/config";
-import { FUNNEL_URLS } from "./config";
-import { runFunnel, type FunnelRunSummary } from "./runner/runFunnel";
-import { ensureDir, writeJsonFile } from "./utils/fileManager";
+import { formatFlagHelp, UsageError, type FlagSpec } from "./cli/args";
+import { RUN_FLAGS, runCommand } from "./cli/runCommand";
+import { REPORT_FLAGS, reportCommand } from "./cli/reportCommand";
+import { DIFF_FLAGS, diffCommand } from "./cli/diffCommand";
+import { EVAL_FLAGS, evalCommand } from "./cli/evalCommand";
+import { RECLASSIFY_FLAGS, reclassifyCommand } from "./cli/reclassifyCommand";
+import { ConfigError } from "./cli/configFile";
 
-async function main(): Promise<void> {
-  const cliArgs = process.argv.slice(2);
-  const cliUrls = cliArgs.filter((arg) => arg.startsWith("http"));
-
-  const baseUrls = cliUrls.length > 0 ? cliUrls : FUNNEL_URLS;
-  const urls = baseUrls.slice(0, 5);
+type Command = {
+  usage: string;
+  summary: string;
+  flags: FlagSpec[];
+  handler: (argv: string[]) => Promise<void>;
+};
 
-  console.log(`Running ${urls.length} funnels...`);
-  const summaries: FunnelRunSummary[] = [];
+const COMMANDS: Record<string, Command> = {
+  run: {
+    usage: "run [URL...] [options]",
+    summary: "Run funnels (URLs from arguments, --config or src/config.ts)",
+    flags: RUN_FLAGS,
+    handler: runCommand,
+  },
+  report: {
+    usage: "report [DIR]",
+    summary: "Rebuild DIR/summary.json and DIR/report.html (default: results)",
+    flags: REPORT_FLAGS,
+    handler: reportCommand,
+  },
+  diff: {
+    usage: "diff [BEFORE] [AFTER]",
+    summary: "Compare two results folders or snapshots (default: previous vs latest)",
+    flags: DIFF_FLAGS,
+    handler: diffCommand,
+  },
+  eval: {
+    usage: "eval DIR [options]",
+    summary: "Score the classifier on labeled HTML snapshots (DIR/labels.yaml)",
+    flags: EVAL_FLAGS,
+    handler: evalCommand,
+  },
+  reclassify: {
+    usage: "reclassify [DIR] [options]",
+    summary: "Re-run the classifier on archived step snapshots, offline (default: results)",
+    flags: RECLASSIFY_FLAGS,
+    handler: reclassifyCommand,
+  },
+};
 
-  for (const [index, url] of urls.entries()) {
-    console.log(`[${index + 1}/${urls.length}] ${url}`);
-    const summary = await runFunnel(url);
-    summaries.push(summary);
+function printHelp(name?: string): void {
+  const command = name ? COMMANDS[name] : undefined;
+  if (command) {
+    console.log(`Usage: npm run dev -- ${command.usage}\n\n${command.summary}.\n\nOptions:\n${formatFlagHelp(command.flags)}`);
+    return;
   }
+  const commands = Object.values(COMMANDS).map((item) => `  ${item.usage.padEnd(34)}${item.summary}`);
+  console.log(
+    [
+      "Usage: npm run dev -- <command> [options]",
+      "",
+      "Commands:",
+      ...commands,
+      "",
+      "Without a command, arguments are passed to `run`. `<command> --help` lists its options.",
+    ].join("\n"),
+  );
+}
 
-  const totalFunnels = summaries.length;
-  const funnelsReachedPaywall = summaries.filter((item) => item.reachedPaywall).length;
-  const totalSteps = summaries.reduce((acc, item) => acc + item.totalSteps, 0);
-  const averageSteps = totalFunnels > 0 ? Number((totalSteps / totalFunnels).toFixed(1)) : 0;
-  const totalPaywallsCollected = funnelsReachedPaywall;
-
-  await ensureDir("results");
-  await writeJsonFile("results/summary.json", {
-    totalFunnels,
-    funnelsReachedPaywall,
-    averageSteps,
-    totalPaywallsCollected,
-  });
-
-  console.log("Done. Check results/ folder.");
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv[0] === "help" || argv[0] === "-h" || (argv[0] === "--help" && argv.length === 1)) {
+    printHelp(argv[1]);
+    return;
+  }
+  // Old invocations (`npm run dev -- <url> --persona=anna`) still mean `run`.
+  const name = argv[0] && COMMANDS[argv[0]] ? argv[0] : "run";
+  const rest = name === argv[0] ? argv.slice(1) : argv;
+  if (rest.includes("--help") || rest.includes("-h")) {
+    printHelp(name);
+    return;
+  }
+  try {
+    await COMMANDS[name].handler(rest);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(2);
+    }
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n`);
+    printHelp(name);
+    process.exit(2);
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,261 @@
+import type { Persona } from "../persona/persona";
+
+export type AnswerCandidate = {
+  index: number;
+  text: string;
+};
+
+export type AnswerContext = {
+  step: number;
+  /** How many answers were already given in this run (0 for the first question). */
+  decision: number;
+};
+
+export type AnswerChoice = {
+  index: number;
+  reason: string;
+};
+
+/**
+ * Decides which answer option to pick on a question screen.
+ * `choose` receives the visible candidates in DOM order and returns the chosen one (or null to skip).
+ */
+export type AnswerStrategy = {
+  name: string;
+  choose(candidates: AnswerCandidate[], context: AnswerContext): AnswerChoice | null;
+};
+
+/** What was picked on one step — goes to log.txt and summary.json. */
+export type AnswerRecord = {
+  step: number;
+  strategy: string;
+  source: "radio" | "button" | "card";
+  index: number;
+  total: number;
+  text: string;
+  reason: string;
+};
+
+const DISQUALIFYING_ANSWERS =
+  /(none of (the )?above|not interested|prefer not|i don'?t know|i do not|nothing|never|under 18|younger than 18|no,? thanks|not sure|skip)/i;
+
+export function firstStrategy(): AnswerStrategy {
+  return {
+    name: "first",
+    choose: (candidates) => (candidates.length > 0 ? { index: 0, reason: "first option" } : null),
+  };
+}
+
+export function lastStrategy(): AnswerStrategy {
+  return {
+    name: "last",
+    choose: (candidates) =>
+      candidates.length > 0 ? { index: candidates.length - 1, reason: "last option" } : null,
+  };
+}
+
+/**
+ * Pick option N (0-based). Falls back to the last option when the screen has fewer options.
+ */
+export function indexStrategy(position: number): AnswerStrategy {
+  return {
+    name: `index:${position}`,
+    choose: (candidates) => {
+      if (candidates.length === 0) return null;
+      if (position < candidates.length) return { index: position, reason: `option #${position}` };
+      return { index: candidates.length - 1, reason: `option #${position} missing, took last` };
+    },
+  };
+}
+
+/**
+ * mulberry32 — tiny deterministic PRNG, enough for reproducible answer paths.
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/**
+ * Random pick, reproducible for the same seed + step + number of options.
+ */
+export function randomStrategy(seed: number): AnswerStrategy {
+  return {
+    name: `random:${seed}`,
+    choose: (candidates, context) => {
+      if (candidates.length === 0) return null;
+      const next = seededRandom(seed * 31 + context.step * 7 + candidates.length);
+      const index = Math.floor(next() * candidates.length);
+      return { index, reason: `seeded random (seed ${seed})` };
+    },
+  };
+}
+
+/**
+ * Pick the first option whose label matches the pattern; first option otherwise.
+ */
+export function matchStrategy(pattern: RegExp): AnswerStrategy {
+  return {
+    name: `match:${pattern.source}`,
+    choose: (candidates) => {
+      if (candidates.length === 0) return null;
+      const index = candidates.findIndex((candidate) => pattern.test(candidate.text));
+      if (index >= 0) return { index, reason: `label matched /${pattern.source}/` };
+      return { index: 0, reason: `no label matched /${pattern.source}/, took first` };
+    },
+  };
+}
+
+/**
+ * Pick the first option that does not look like a funnel exit ("none of the above", "under 18", ...).
+ */
+export function avoidDisqualifyingStrategy(): AnswerStrategy {
+  return {
+    name: "avoid-disqualifying",
+    choose: (candidates) => {
+      if (candidates.length === 0) return null;
+      const index = candidates.findIndex((candidate) => !DISQUALIFYING_ANSWERS.test(candidate.text));
+      if (index >= 0) return { index, reason: "first non-disqualifying option" };
+      return { index: 0, reason: "all options look disqualifying, took first" };
+    },
+  };
+}
+
+/**
+ * Replay a fixed list of option indices for the first decisions, then hand over to `fallback`.
+ * Used by branch exploration to reach a given point of the funnel tree.
+ */
+export function pathStrategy(prefix: number[], fallback: AnswerStrategy = firstStrategy()): AnswerStrategy {
+  return {
+    name: prefix.length > 0 ? `path:${prefix.join(".")}+${fallback.name}` : fallback.name,
+    choose: (candidates, context) => {
+      if (candidates.length === 0) return null;
+      if (context.decision < prefix.length) {
+        const wanted = prefix[context.decision];
+        const index = Math.min(wanted, candidates.length - 1);
+        return { index, reason: `replayed path option #${wanted}` };
+      }
+      return fallback.choose(candidates, context);
+    },
+  };
+}
+
+const MALE_ANSWER = /\b(male|man|men|boy)\b|мужчина|мужской/i;
+const FEMALE_ANSWER = /\b(female|woman|women|girl)\b|женщина|женский/i;
+
+/**
+ * Age range bounds from option text: "18-29", "30–39", "40+", "under 25", "over 60".
+ */
+function parseAgeRange(text: string): { min: number; max: number } | null {
+  const range = text.match(/(\d{2})\s*[-–—]\s*(\d{2})/);
+  if (range) return { min: Number(range[1]), max: Number(range[2]) };
+  const plus = text.match(/(\d{2})\s*\+/) ?? text.match(/(?:over|above|older than)\s*(\d{2})/i);
+  if (plus) return { min: Number(plus[1]), max: 150 };
+  const under = text.match(/(?:under|below|younger than|less than)\s*(\d{2})/i);
+  if (under) return { min: 0, max: Number(under[1]) - 1 };
+  return null;
+}
+
+/**
+ * Answer gender / age range / goal questions the way the persona would; defer everything else to `fallback`.
+ */
+export function personaStrategy(persona: Persona, fallback: AnswerStrategy = firstStrategy()): AnswerStrategy {
+  const goalWords = persona.goal
+    .toLowerCase()
+    .split(/\W+/)
+    .filter((word) => word.length >= 4);
+
+  return {
+    name: `persona:${persona.id}+${fallback.name}`,
+    choose: (candidates, context) => {
+      if (candidates.length === 0) return null;
+
+      const male = candidates.findIndex(
+        (candidate) => MALE_ANSWER.test(candidate.text) && !FEMALE_ANSWER.test(candidate.text),
+      );
+      const female = candidates.findIndex((candidate) => FEMALE_ANSWER.test(candidate.text));
+      if (male >= 0 && female >= 0) {
+        return {
+          index: persona.gender === "male" ? male : female,
+          reason: `persona gender ${persona.gender}`,
+        };
+      }
+
+      const ranges = candidates.map((candidate) => parseAgeRange(candidate.text));
+      if (ranges.filter(Boolean).length >= 2) {
+        const index = ranges.findIndex(
+          (range) => range !== null && persona.age >= range.min && persona.age <= range.max,
+        );
+        if (index >= 0) return { index, reason: `persona age ${persona.age}` };
+      }
+
+      if (goalWords.length > 0) {
+        const scores = candidates.map(
+          (candidate) => goalWords.filter((word) => candidate.text.toLowerCase().includes(word)).length,
+        );
+        const best = Math.max(...scores);
+        if (best > 0) return { index: scores.indexOf(best), reason: `persona goal "${persona.goal}"` };
+      }
+
+      return fallback.choose(candidates, context);
+    },
+  };
+}
+
+function parseRegex(raw: string): RegExp {
+  const literal = raw.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    // g/y make test() resume from lastIndex, so a match on one option would skip the next ones
+    if (literal) return new RegExp(literal[1], literal[2].replace(/[gy]/g, ""));
+    return new RegExp(raw, "i");
+  } catch (error) {
+    throw new Error(`Invalid match pattern "${raw}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parse a strategy spec: "first", "last", "index:2", "random:42", "match:/female|yoga/i", "avoid-disqualifying".
+ */
+export function parseAnswerStrategy(spec: string): AnswerStrategy {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(":");
+  const name = (separator >= 0 ? trimmed.slice(0, separator) : trimmed).toLowerCase();
+  const arg = separator >= 0 ? trimmed.slice(separator + 1) : "";
+
+  switch (name) {
+    case "":
+    case "first":
+      return firstStrategy();
+    case "last":
+      return lastStrategy();
+    case "index": {
+      const position = Number(arg);
+      if (!Number.isInteger(position) || position < 0) {
+        throw new Error(`Invalid answer strategy "${spec}": index must be a non-negative integer.`);
+      }
+      return indexStrategy(position);
+    }
+    case "random": {
+      const seed = arg === "" ? 1 : Number(arg);
+      if (!Number.isFinite(seed)) {
+        throw new Error(`Invalid answer strategy "${spec}": seed must be a number.`);
+      }
+      return randomStrategy(seed);
+    }
+    case "match":
+      if (arg === "") {
+        throw new Error(`Invalid answer strategy "${spec}": match needs a pattern.`);
+      }
+      return matchStrategy(parseRegex(arg));
+    case "avoid-disqualifying":
+      return avoidDisqualifyingStrategy();
+    default:
+      throw new Error(`Unknown answer strategy "${spec}".`);
+  }
+}
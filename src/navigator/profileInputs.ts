@@ -0,0 +1,472 @@
+import type { Locator, Page } from "playwright";
+import type { Persona } from "../persona/persona";
+
+export type UnitSystem = "metric" | "imperial";
+
+type PageUnits = {
+  height: UnitSystem | null;
+  weight: UnitSystem | null;
+};
+
+type FieldKind =
+  | "name"
+  | "height"
+  | "heightFeet"
+  | "heightInches"
+  | "weight"
+  | "targetWeight"
+  | "age"
+  | "dateOfBirth";
+
+type FieldDescriptor = {
+  /** placeholder, name, id, aria-label, autocomplete and label text of the field itself. */
+  own: string;
+  /** Short text of the wrapping element — usually where "cm" / "lbs" suffixes live. */
+  around: string;
+  type: string;
+  min: string;
+  max: string;
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * React-compatible value setter: uses the native HTMLInputElement.prototype.value
+ * descriptor so React's synthetic event system picks up the change.
+ */
+export async function reactSafeType(input: Locator, page: Page, value: string): Promise<void> {
+  await input.click().catch(() => {});
+  await input.fill("").catch(() => {});
+  await page.keyboard.type(value, { delay: 30 });
+  await input.evaluate((el, v) => {
+    if (!(el instanceof HTMLInputElement)) return;
+    const nativeSetter = Object.getOwnPropertyDescriptor(
+      HTMLInputElement.prototype,
+      "value",
+    )?.set;
+    if (nativeSetter) nativeSetter.call(el, v);
+    el.dispatchEvent(new Event("input", { bubbles: true }));
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+  }, value);
+  await page.waitForTimeout(150);
+}
+
+/**
+ * Read metric/imperial toggles (cm | ft, kg | lbs, Metric | Imperial) and which side is selected.
+ * null means the page has no toggle for that measurement or the selection can't be told.
+ */
+async function detectPageUnits(page: Page): Promise<PageUnits> {
+  const toggles = await page
+    .evaluate(() => {
+      const unitText = /^(cm|ft|ft\s*\/?\s*in|in|kg|lbs?|metric|imperial)$/i;
+      const activeClass = /(^|[\s_-])(active|selected|checked|current|is-on|on)($|[\s_-])/i;
+      const dom = {
+        isSelected(el: HTMLElement): boolean {
+          for (const attr of ["aria-selected", "aria-pressed", "aria-checked"]) {
+            if (el.getAttribute(attr) === "true") return true;
+          }
+          const state = el.getAttribute("data-state") ?? "";
+          if (/^(active|on|checked)$/i.test(state)) return true;
+          if (activeClass.test(el.className || "")) return true;
+          const nested = el.querySelector("input");
+          if (nested instanceof HTMLInputElement && nested.checked) return true;
+          if (el instanceof HTMLLabelElement && el.control instanceof HTMLInputElement && el.control.checked) return true;
+          return false;
+        },
+      };
+      const found: Array<{ text: string; selected: boolean }> = [];
+      const candidates = document.querySelectorAll("button, label, a, [role='tab'], [role='radio'], [role='button'], span, div");
+      for (const el of Array.from(candidates)) {
+        if (!(el instanceof HTMLElement)) continue;
+        const text = (el.innerText || "").trim();
+        if (!unitText.test(text)) continue;
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) continue;
+        found.push({ text: text.toLowerCase().replace(/\s+/g, ""), selected: dom.isSelected(el) });
+      }
+      return found;
+    })
+    .catch(() => [] as Array<{ text: string; selected: boolean }>);
+
+  const units: PageUnits = { height: null, weight: null };
+  for (const toggle of toggles) {
+    if (!toggle.selected) continue;
+    if (toggle.text === "cm") units.height = "metric";
+    else if (toggle.text.startsWith("ft") || toggle.text === "in") units.height = "imperial";
+    else if (toggle.text === "kg") units.weight = "metric";
+    else if (toggle.text.startsWith("lb")) units.weight = "imperial";
+    else if (toggle.text === "metric" || toggle.text === "imperial") {
+      units.height ??= toggle.text;
+      units.weight ??= toggle.text;
+    }
+  }
+  return units;
+}
+
+async function describeField(field: Locator): Promise<FieldDescriptor> {
+  return field
+    .evaluate((el) => {
+      const dom = {
+        attr(name: string): string {
+          return el.getAttribute(name) ?? "";
+        },
+      };
+      const parts = [dom.attr("placeholder"), dom.attr("name"), dom.attr("id"), dom.attr("aria-label"), dom.attr("autocomplete")];
+      if (el.id) {
+        const label = document.querySelector(`label[for="${el.id}"]`);
+        if (label instanceof HTMLElement) parts.push(label.innerText);
+      }
+      const wrapping = el.closest("label");
+      if (wrapping instanceof HTMLElement) parts.push(wrapping.innerText);
+      const parentText = el.parentElement instanceof HTMLElement ? el.parentElement.innerText : "";
+      return {
+        own: parts.join(" ").replace(/\s+/g, " ").trim(),
+        around: parentText.length <= 80 ? parentText.replace(/\s+/g, " ").trim() : "",
+        type: (dom.attr("type") || el.tagName).toLowerCase(),
+        min: dom.attr("min"),
+        max: dom.attr("max"),
+      };
+    })
+    .catch(() => ({ own: "", around: "", type: "", min: "", max: "" }));
+}
+
+function kindFromText(text: string): FieldKind | null {
+  if (/(birth|\bdob\b|dd\s*[/.-]\s*mm|mm\s*[/.-]\s*dd|yyyy)/i.test(text)) return "dateOfBirth";
+  if (/((target|goal|desired|dream|ideal)\s*weight|weight\s*goal)/i.test(text)) return "targetWeight";
+  if (/\b(ft|feet|foot)\b/i.test(text) && !/\b(in|inch|inches)\b/i.test(text)) return "heightFeet";
+  if (/\b(inch|inches)\b/i.test(text) && !/\b(ft|feet|foot)\b/i.test(text)) return "heightInches";
+  if (/(height|tall|\bcm\b)/i.test(text)) return "height";
+  if (/(weight|\bkg\b|\blbs?\b|pounds)/i.test(text)) return "weight";
+  if (/(\bage\b|years old|how old)/i.test(text)) return "age";
+  return null;
+}
+
+function kindFromDescriptor(descriptor: FieldDescriptor): FieldKind | null {
+  // Name first: keeps the old priority for "your name" fields.
+  if (/name/i.test(descriptor.own)) return "name";
+  return kindFromText(descriptor.own) ?? kindFromText(descriptor.around);
+}
+
+/**
+ * Unit for one field: explicit suffix/placeholder wins, then the page toggle, then metric.
+ */
+function unitForField(kind: FieldKind, descriptor: FieldDescriptor, pageUnits: PageUnits): UnitSystem {
+  const text = `${descriptor.own} ${descriptor.around}`;
+  if (kind === "height" || kind === "heightFeet" || kind === "heightInches") {
+    const metric = /\bcm\b/i.test(text);
+    const imperial = /\b(ft|feet|inch|inches)\b/i.test(text);
+    if (metric !== imperial) return metric ? "metric" : "imperial";
+    return pageUnits.height ?? "metric";
+  }
+  if (kind === "weight" || kind === "targetWeight") {
+    const metric = /\bkg\b/i.test(text);
+    const imperial = /\b(lbs?|pounds)\b/i.test(text);
+    if (metric !== imperial) return metric ? "metric" : "imperial";
+    return pageUnits.weight ?? "metric";
+  }
+  return "metric";
+}
+
+function formatDateOfBirth(persona: Persona, placeholder: string): string {
+  const [year, month, day] = persona.dateOfBirth.split("-");
+  const pattern = placeholder.toLowerCase();
+  if (/yyyy\s*[-/.]\s*mm/.test(pattern)) return `${year}-${month}-${day}`;
+  const separator = pattern.includes(".") ? "." : "/";
+  if (/dd\s*[/.-]\s*mm/.test(pattern)) return `${day}${separator}${month}${separator}${year}`;
+  return `${month}${separator}${day}${separator}${year}`;
+}
+
+function valueForKind(kind: FieldKind, unit: UnitSystem, persona: Persona, descriptor: FieldDescriptor): string {
+  switch (kind) {
+    case "name":
+      return persona.name;
+    case "heightFeet":
+      return String(persona.height.ft);
+    case "heightInches":
+      return String(persona.height.in);
+    case "height":
+      if (unit === "metric") return String(persona.height.cm);
+      // Single imperial field: number inputs take total inches, text inputs take 5'7"
+      return descriptor.type === "number"
+        ? String(persona.height.ft * 12 + persona.height.in)
+        : `${persona.height.ft}'${persona.height.in}"`;
+    case "weight":
+      return String(unit === "metric" ? persona.weight.kg : persona.weight.lbs);
+    case "targetWeight":
+      return String(unit === "metric" ? persona.targetWeight.kg : persona.targetWeight.lbs);
+    case "age":
+      return String(persona.age);
+    case "dateOfBirth":
+      return formatDateOfBirth(persona, descriptor.own);
+    default:
+      return "1";
+  }
+}
+
+/**
+ * Numeric target used to pick the closest <select> option / slider position / wheel item.
+ * Imperial height is compared in total inches.
+ */
+function numericTarget(kind: FieldKind, unit: UnitSystem, persona: Persona): number | null {
+  switch (kind) {
+    case "height":
+      return unit === "metric" ? persona.height.cm : persona.height.ft * 12 + persona.height.in;
+    case "heightFeet":
+      return persona.height.ft;
+    case "heightInches":
+      return persona.height.in;
+    case "weight":
+      return unit === "metric" ? persona.weight.kg : persona.weight.lbs;
+    case "targetWeight":
+      return unit === "metric" ? persona.targetWeight.kg : persona.targetWeight.lbs;
+    case "age":
+      return persona.age;
+    default:
+      return null;
+  }
+}
+
+function parseOptionNumber(text: string): number | null {
+  const feetInches = text.match(/(\d+)\s*(?:'|ft)\s*(\d+)?/i);
+  if (feetInches) return Number(feetInches[1]) * 12 + Number(feetInches[2] ?? 0);
+  const plain = text.match(/\d+(?:[.,]\d+)?/);
+  return plain ? Number(plain[0].replace(",", ".")) : null;
+}
+
+async function fillTextInputs(page: Page, persona: Persona, pageUnits: PageUnits): Promise<string[]> {
+  const messages: string[] = [];
+  const inputs = page.locator(
+    "input[type='text']:visible, input[type='number']:visible, input:not([type]):visible, textarea:visible",
+  );
+  const count = await inputs.count();
+
+  const fields: Array<{ input: Locator; descriptor: FieldDescriptor; kind: FieldKind | null }> = [];
+  for (let index = 0; index < count; index += 1) {
+    const input = inputs.nth(index);
+    const isDisabled = await input.evaluate((el) => {
+      if (!(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement)) return true;
+      return el.disabled || el.readOnly;
+    }).catch(() => true);
+    if (isDisabled) continue;
+    const descriptor = await describeField(input);
+    fields.push({ input, descriptor, kind: kindFromDescriptor(descriptor) });
+  }
+
+  // Split height: the field next to a "ft" field is inches even when it's only labelled "in".
+  const feetIndex = fields.findIndex((field) => field.kind === "heightFeet");
+  if (feetIndex >= 0) {
+    const next = fields[feetIndex + 1];
+    if (next && (next.kind === null || next.kind === "height") && /\bin\b/i.test(`${next.descriptor.own} ${next.descriptor.around}`)) {
+      next.kind = "heightInches";
+    }
+  }
+
+  let bodyKind: FieldKind | null | undefined;
+  for (const field of fields) {
+    let kind = field.kind;
+    if (!kind) {
+      if (bodyKind === undefined) {
+        const bodyText = await page.innerText("body").catch(() => "");
+        bodyKind = /name/i.test(bodyText) && !kindFromText(bodyText) ? "name" : kindFromText(bodyText);
+      }
+      kind = bodyKind;
+    }
+    const unit = kind ? unitForField(kind, field.descriptor, pageUnits) : "metric";
+    const value = kind ? valueForKind(kind, unit, persona, field.descriptor) : "1";
+
+    await field.input.scrollIntoViewIfNeeded();
+    await reactSafeType(field.input, page, value);
+    messages.push(`Filled ${kind ?? "field"}=${value}${kind && unit === "imperial" ? " (imperial)" : ""}`);
+  }
+  return messages;
+}
+
+async function fillDateInputs(page: Page, persona: Persona): Promise<string[]> {
+  const messages: string[] = [];
+  const inputs = page.locator("input[type='date']:visible");
+  const count = await inputs.count();
+  for (let index = 0; index < count; index += 1) {
+    try {
+      await inputs.nth(index).fill(persona.dateOfBirth);
+      messages.push(`Filled dateOfBirth=${persona.dateOfBirth}`);
+    } catch {
+      // Custom date widgets may reject fill(); the select/text handlers cover the common ones.
+    }
+  }
+  return messages;
+}
+
+async function fillSelects(page: Page, persona: Persona, pageUnits: PageUnits): Promise<string[]> {
+  const messages: string[] = [];
+  const selects = page.locator("select:visible");
+  const count = await selects.count();
+  const [year, month, day] = persona.dateOfBirth.split("-").map(Number);
+
+  for (let index = 0; index < count; index += 1) {
+    const select = selects.nth(index);
+    const descriptor = await describeField(select);
+    const options = await select
+      .locator("option")
+      .evaluateAll((els) =>
+        els.map((el) => ({ value: (el as HTMLOptionElement).value, text: (el.textContent || "").trim() })),
+      )
+      .catch(() => [] as Array<{ value: string; text: string }>);
+    const real = options.filter((option) => option.value !== "" && !/^(select|choose|-+)/i.test(option.text));
+    if (real.length === 0) continue;
+
+    const texts = real.map((option) => option.text.toLowerCase());
+    let chosen: { value: string; text: string } | undefined;
+    let label = "";
+
+    if (texts.some((text) => /\b(male|man)\b/.test(text)) && texts.some((text) => /\b(female|woman)\b/.test(text))) {
+      chosen = real.find((option) =>
+        persona.gender === "male" ? /\b(male|man)\b/i.test(option.text) : /\b(female|woman)\b/i.test(option.text),
+      );
+      label = "gender";
+    } else if (/month|\bmm\b/i.test(descriptor.own) || texts.filter((text) => MONTHS.some((name) => text.startsWith(name))).length >= 12) {
+      chosen = real.find((option) => option.text.toLowerCase().startsWith(MONTHS[month - 1])) ??
+        real.find((option) => Number(option.value) === month || Number(option.text) === month);
+      label = "birthMonth";
+    } else if (/year|yyyy/i.test(descriptor.own) || texts.filter((text) => /^(19|20)\d{2}$/.test(text)).length >= 10) {
+      chosen = real.find((option) => Number(option.text) === year);
+      label = "birthYear";
+    } else if (/\bday\b|\bdd\b/i.test(descriptor.own)) {
+      chosen = real.find((option) => Number(option.text) === day);
+      label = "birthDay";
+    } else {
+      const kind = kindFromDescriptor(descriptor);
+      if (!kind || kind === "name" || kind === "dateOfBirth") continue;
+      const unit = unitForField(kind, descriptor, pageUnits);
+      const target = numericTarget(kind, unit, persona);
+      if (target === null) continue;
+      let bestDistance = Number.POSITIVE_INFINITY;
+      for (const option of real) {
+        const parsed = parseOptionNumber(option.text);
+        if (parsed === null) continue;
+        const distance = Math.abs(parsed - target);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          chosen = option;
+        }
+      }
+      label = kind;
+    }
+
+    if (!chosen) continue;
+    try {
+      await select.selectOption({ value: chosen.value }, { timeout: 2_000 });
+      messages.push(`Selected ${label}=${chosen.text}`);
+    } catch {
+      // Hidden native <select> behind a custom dropdown — nothing more to do here.
+    }
+  }
+  return messages;
+}
+
+async function fillSliders(page: Page, persona: Persona, pageUnits: PageUnits): Promise<string[]> {
+  const messages: string[] = [];
+  const sliders = page.locator("input[type='range']:visible");
+  const count = await sliders.count();
+  let bodyText: string | null = null;
+
+  for (let index = 0; index < count; index += 1) {
+    const slider = sliders.nth(index);
+    const descriptor = await describeField(slider);
+    let kind = kindFromDescriptor(descriptor);
+    if (!kind || kind === "name") {
+      bodyText ??= await page.innerText("body").catch(() => "");
+      kind = kindFromText(bodyText);
+    }
+    if (!kind) continue;
+
+    let unit = unitForField(kind, descriptor, pageUnits);
+    const max = Number(descriptor.max || "100");
+    // A height slider topping out below ~100 can't be centimetres.
+    if (kind === "height" && !pageUnits.height && max > 0 && max < 100) unit = "imperial";
+    const target = numericTarget(kind, unit, persona);
+    if (target === null) continue;
+    const min = Number(descriptor.min || "0");
+    const value = String(Math.min(Math.max(target, min), max));
+
+    await slider.evaluate((el, v) => {
+      if (!(el instanceof HTMLInputElement)) return;
+      const nativeSetter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")?.set;
+      if (nativeSetter) nativeSetter.call(el, v);
+      el.dispatchEvent(new Event("input", { bubbles: true }));
+      el.dispatchEvent(new Event("change", { bubbles: true }));
+    }, value).catch(() => undefined);
+    messages.push(`Set slider ${kind}=${value}${unit === "imperial" ? " (imperial)" : ""}`);
+  }
+  return messages;
+}
+
+/**
+ * Wheel-style pickers: a scrollable column of numbers. Scroll the persona's value into the
+ * middle and click it. Only used when the page has nothing typeable.
+ */
+async function pickWheelValue(page: Page, persona: Persona, pageUnits: PageUnits): Promise<string[]> {
+  const bodyText = await page.innerText("body").catch(() => "");
+  const kind = kindFromText(bodyText);
+  if (!kind || kind === "dateOfBirth") return [];
+  const unit = unitForField(kind, { own: "", around: "", type: "", min: "", max: "" }, pageUnits);
+  const target = numericTarget(kind, unit, persona);
+  if (target === null) return [];
+  // Wheels for imperial height usually list feet and inches separately; pick the feet value.
+  const wanted = kind === "height" && unit === "imperial" ? persona.height.ft : target;
+
+  const picked = await page
+    .evaluate((value) => {
+      const itemText = new RegExp(`^${value}(\\s*(cm|kg|lbs?|ft|in|'|years?))?$`, "i");
+      for (const container of Array.from(document.querySelectorAll("*"))) {
+        if (!(container instanceof HTMLElement)) continue;
+        const style = window.getComputedStyle(container);
+        const scrollable = /(auto|scroll)/.test(style.overflowY) && container.scrollHeight > container.clientHeight + 20;
+        const listbox = container.getAttribute("role") === "listbox";
+        if (!scrollable && !listbox) continue;
+        for (const item of Array.from(container.querySelectorAll("*"))) {
+          if (!(item instanceof HTMLElement) || item.children.length > 0) continue;
+          if (!itemText.test((item.textContent || "").trim())) continue;
+          item.scrollIntoView({ block: "center" });
+          item.click();
+          return true;
+        }
+      }
+      return false;
+    }, wanted)
+    .catch(() => false);
+
+  return picked ? [`Picked wheel value ${kind}=${wanted}${unit === "imperial" ? " (imperial)" : ""}`] : [];
+}
+
+/**
+ * Fill every profile widget on the screen for the active persona: text/number inputs (incl. split
+ * ft+in), date inputs, <select>s, range sliders and — when nothing else is there — wheel pickers.
+ * Values follow the unit currently selected on the page; toggles are never switched.
+ */
+export async function fillInputByHints(page: Page, persona: Persona): Promise<string[]> {
+  const pageUnits = await detectPageUnits(page);
+  const messages: string[] = [];
+  messages.push(...(await fillTextInputs(page, persona, pageUnits)));
+  messages.push(...(await fillDateInputs(page, persona)));
+  messages.push(...(await fillSelects(page, persona, pageUnits)));
+  messages.push(...(await fillSliders(page, persona, pageUnits)));
+  if (messages.length === 0) {
+    messages.push(...(await pickWheelValue(page, persona, pageUnits)));
+  }
+  if (messages.length > 0 && (pageUnits.height || pageUnits.weight)) {
+    messages.unshift(`Detected units: height=${pageUnits.height ?? "?"}, weight=${pageUnits.weight ?? "?"}.`);
+  }
+  return messages;
+}
+
+/**
+ * Value for a lone field when nothing describes it: guessed from the screen text.
+ */
+export async function guessValueFromBody(page: Page, persona: Persona): Promise<string> {
+  const bodyText = await page.innerText("body").catch(() => "");
+  const kind = kindFromText(bodyText) ?? (/name/i.test(bodyText) ? "name" : null);
+  if (!kind) return "1";
+  const pageUnits = await detectPageUnits(page);
+  const empty: FieldDescriptor = { own: "", around: "", type: "text", min: "", max: "" };
+  return valueForKind(kind, unitForField(kind, empty, pageUnits), persona, empty);
+}
@@ -1,13 +1,40 @@
 import type { Page } from "playwright";
-import { INPUT_DEFAULTS } from "../config";
 import type { ScreenType } from "../classifier/classifyScreen";
-
-type ActionResult = {
+import { getScreenFingerprint, isSameScreen } from "../classifier/screenFingerprint";
+import { RUN_CONFIG } from "../config";
+import { matchStrategy, type AnswerCandidate, type AnswerRecord, type AnswerStrategy } from "./answerStrategy";
+import type { Persona } from "../persona/persona";
+import { fillInputByHints, guessValueFromBody, reactSafeType } from "./profileInputs";
+import { ruleCtaSelectors, textMatcher, type StepRules } from "../rules/funnelRules";
+
+export type ActionResult = {
   performed: boolean;
   messages: string[];
+  answer?: AnswerRecord;
+};
+
+export type StepContext = {
+  step: number;
+  /** Answers already given in this run; lets path-replaying strategies know where they are. */
+  decision: number;
+  answerStrategy: AnswerStrategy;
+  persona: Persona;
+  /** Funnel rules for this step (see rules/funnelRules); consulted before the generic heuristics. */
+  rules?: StepRules | null;
+  /** Fingerprint similarity at which the screen counts as unchanged (RunSettings.loopSimilarity). */
+  loopSimilarity?: number;
 };
 
-async function clickLocator(locator: ReturnType<Page["locator"]>): Promise<boolean> {
+type OptionClickResult = {
+  clicked: boolean;
+  messages: string[];
+  answer?: AnswerRecord;
+};
+
+/**
+ * Scroll + click, then force click, then DOM click().
+ */
+export async function clickLocator(locator: ReturnType<Page["locator"]>): Promise<boolean> {
   try {
     await locator.scrollIntoViewIfNeeded();
     await locator.page().waitForTimeout(500); // Шаг 6: wait after scroll
@@ -147,88 +174,20 @@ async function closeCommonPopups(page: Page): Promise<string[]> {
   return messages;
 }
 
-/**
- * React-compatible value setter: uses the native HTMLInputElement.prototype.value
- * descriptor so React's synthetic event system picks up the change.
- */
-async function reactSafeType(
-  input: ReturnType<Page["locator"]>,
-  page: Page,
-  value: string,
-): Promise<void> {
-  await input.click().catch(() => {});
-  await input.fill("").catch(() => {});
-  await page.keyboard.type(value, { delay: 30 });
-  await input.evaluate((el, v) => {
-    if (!(el instanceof HTMLInputElement)) return;
-    const nativeSetter = Object.getOwnPropertyDescriptor(
-      HTMLInputElement.prototype,
-      "value",
-    )?.set;
-    if (nativeSetter) nativeSetter.call(el, v);
-    el.dispatchEvent(new Event("input", { bubbles: true }));
-    el.dispatchEvent(new Event("change", { bubbles: true }));
-  }, value);
-  await page.waitForTimeout(150);
-}
+/** Radio/checkbox answer options, native or ARIA. */
+export const OPTION_INPUT_SELECTOR = "input[type='radio'], input[type='checkbox'], [role='radio'], [role='checkbox']";
 
-async function fillInputByHints(page: Page): Promise<string[]> {
-  const messages: string[] = [];
-  const mapping: Array<{ hints: RegExp; value: string; label: string }> = [
-    { hints: /(name|first name|your name)/i, value: INPUT_DEFAULTS.name, label: "name" },
-    { hints: /(height|cm)/i, value: INPUT_DEFAULTS.height, label: "height" },
-    { hints: /(weight|kg|lbs)/i, value: INPUT_DEFAULTS.weight, label: "weight" },
-    { hints: /(age|years old|yo)/i, value: INPUT_DEFAULTS.age, label: "age" },
-  ];
-
-  const inputs = page.locator(
-    "input[type='text']:visible, input[type='number']:visible, input:not([type]):visible, textarea:visible",
-  );
-  const count = await inputs.count();
-
-  for (let index = 0; index < count; index += 1) {
-    const input = inputs.nth(index);
-
-    const isDisabled = await input.evaluate((el) => {
-      if (!(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement)) return true;
-      return el.disabled || el.readOnly;
-    }).catch(() => true);
-    if (isDisabled) continue;
-
-    const placeholder = (await input.getAttribute("placeholder")) ?? "";
-    const name = (await input.getAttribute("name")) ?? "";
-    const id = (await input.getAttribute("id")) ?? "";
-    const ariaLabel = (await input.getAttribute("aria-label")) ?? "";
-    const descriptor = `${placeholder} ${name} ${id} ${ariaLabel}`;
-
-    const matched = mapping.find((item) => item.hints.test(descriptor));
-
-    let value: string;
-    if (matched) {
-      value = matched.value;
-    } else {
-      const bodyText = (await page.innerText("body").catch(() => "")).toLowerCase();
-      if (/height|how tall/i.test(bodyText)) value = INPUT_DEFAULTS.height;
-      else if (/weight/i.test(bodyText)) value = INPUT_DEFAULTS.weight;
-      else if (/age|how old/i.test(bodyText)) value = INPUT_DEFAULTS.age;
-      else if (/name/i.test(bodyText)) value = INPUT_DEFAULTS.name;
-      else value = "1";
-    }
+// Шаг 5: expanded CTA list, case-insensitive
+export const CONTINUE_TEXTS = [
+  "далее", "continue", "next", "start", "begin", "get started", "unlock", "let's go", "go on", "submit",
+  "see", "get", "show", "claim", "yes",
+];
 
-    await input.scrollIntoViewIfNeeded();
-    await reactSafeType(input, page, value);
-    messages.push(`Filled ${matched?.label ?? "field"}=${value}`);
+async function clickContinue(page: Page, ruleSelectors: string[] = []): Promise<boolean> {
+  if (ruleSelectors.length > 0 && (await clickFirstVisible(page, ruleSelectors))) {
+    return true;
   }
-
-  return messages;
-}
-
-async function clickContinue(page: Page): Promise<boolean> {
-  // Шаг 5: expanded CTA list, case-insensitive
-  const texts = [
-    "далее", "continue", "next", "start", "begin", "get started", "unlock", "let's go", "go on", "submit",
-    "see", "get", "show", "claim", "yes",
-  ];
+  const texts = CONTINUE_TEXTS;
   if (await clickByText(page, texts)) {
     return true;
   }
@@ -247,7 +206,10 @@ async function clickContinue(page: Page): Promise<boolean> {
   return clickFirstVisible(page, selectors);
 }
 
-async function clickQuestionCta(page: Page): Promise<boolean> {
+async function clickQuestionCta(page: Page, ruleSelectors: string[] = []): Promise<boolean> {
+  if (ruleSelectors.length > 0 && (await clickFirstVisible(page, ruleSelectors))) {
+    return true;
+  }
   // Шаг 5: expanded strict CTA list for question screens
   const strictTexts = [
     "далее", "continue", "next", "see results", "get plan", "show my plan", "unlock",
@@ -262,19 +224,18 @@ async function clickQuestionCta(page: Page): Promise<boolean> {
   return false;
 }
 
-async function runEmailSubmitChain(page: Page): Promise<string[]> {
+async function runEmailSubmitChain(page: Page, persona: Persona, loopSimilarity: number): Promise<string[]> {
   const messages: string[] = [];
-  const getSnapshot = async (): Promise<string> => {
-    const html = await page.content().catch(() => "");
-    return `${page.url()}|${html.length}`;
-  };
+  // Baseline after typing the email, so the filled field itself does not count as a transition
+  let beforeSubmit = await getScreenFingerprint(page);
+  const screenChanged = async (): Promise<boolean> => !isSameScreen(beforeSubmit, await getScreenFingerprint(page), loopSimilarity);
 
-  const beforeSubmitSnapshot = await getSnapshot();
   const email = page.locator("input[type='email'], input[placeholder*='email' i]").first();
   if ((await email.count()) > 0 && (await email.isVisible().catch(() => false))) {
     await email.scrollIntoViewIfNeeded();
-    await email.fill(INPUT_DEFAULTS.email);
-    messages.push(`Filled email=${INPUT_DEFAULTS.email}`);
+    await email.fill(persona.email);
+    messages.push(`Filled email=${persona.email}`);
+    beforeSubmit = await getScreenFingerprint(page);
     // Шаг 8: blur + Enter to trigger validation/submit
     await page.keyboard.press("Tab").catch(() => undefined);
     await page.waitForTimeout(300);
@@ -283,8 +244,7 @@ async function runEmailSubmitChain(page: Page): Promise<string[]> {
     await page.waitForTimeout(1_000);
   }
 
-  const afterEnterSnapshot = await getSnapshot();
-  if (afterEnterSnapshot !== beforeSubmitSnapshot) {
+  if (await screenChanged()) {
     messages.push("Transition detected after Enter.");
     return messages;
   }
@@ -298,8 +258,7 @@ async function runEmailSubmitChain(page: Page): Promise<string[]> {
     if (await clickLocator(submitButton)) {
       messages.push("Clicked email submit button.");
       await page.waitForTimeout(1_000);
-      const afterCtaSnapshot = await getSnapshot();
-      if (afterCtaSnapshot !== beforeSubmitSnapshot) {
+      if (await screenChanged()) {
         messages.push("Transition detected after email CTA click.");
         return messages;
       }
@@ -311,8 +270,7 @@ async function runEmailSubmitChain(page: Page): Promise<string[]> {
     if (await clickLocator(genericSubmit)) {
       messages.push("Clicked generic submit control.");
       await page.waitForTimeout(1_000);
-      const afterGenericSubmitSnapshot = await getSnapshot();
-      if (afterGenericSubmitSnapshot !== beforeSubmitSnapshot) {
+      if (await screenChanged()) {
         messages.push("Transition detected after generic submit click.");
         return messages;
       }
@@ -338,7 +296,7 @@ async function runEmailSubmitChain(page: Page): Promise<string[]> {
 /**
  * Try known email hints when explicit input[type=email] is missing.
  */
-async function fillEmailByHints(page: Page): Promise<boolean> {
+async function fillEmailByHints(page: Page, persona: Persona): Promise<boolean> {
   const emailLike = page
     .locator(
       "input[name*='email' i], input[placeholder*='email' i], input[placeholder*='e-mail' i], input[aria-label*='email' i]",
@@ -348,18 +306,18 @@ async function fillEmailByHints(page: Page): Promise<boolean> {
     return false;
   }
   try {
-    await emailLike.fill(INPUT_DEFAULTS.email);
+    await emailLike.fill(persona.email);
     return true;
   } catch {
     return false;
   }
 }
 
-async function submitEmailStep(page: Page): Promise<string[]> {
-  const messages = await runEmailSubmitChain(page);
+async function submitEmailStep(page: Page, persona: Persona, loopSimilarity: number): Promise<string[]> {
+  const messages = await runEmailSubmitChain(page, persona, loopSimilarity);
   const explicitEmail = page.locator("input[type='email']").first();
   if ((await explicitEmail.count()) === 0) {
-    const filledByHints = await fillEmailByHints(page);
+    const filledByHints = await fillEmailByHints(page, persona);
     if (filledByHints) {
       messages.push("Filled email-like input by descriptor hints.");
       await page.keyboard.press("Tab").catch(() => undefined);
@@ -370,28 +328,25 @@ async function submitEmailStep(page: Page): Promise<string[]> {
 }
 
 /**
- * Retrieve the human-readable label text for a radio/checkbox input element.
+ * Human-readable label of a radio/checkbox input element, as shown on the page.
  * Checks explicit <label for=id>, wrapping <label>, and closest visible text ancestor.
  */
-async function getOptionLabelText(
-  page: Page,
-  locator: ReturnType<Page["locator"]>,
-): Promise<string> {
+export async function getOptionLabel(locator: ReturnType<Page["locator"]>): Promise<string> {
   return locator
     .evaluate((el) => {
       if (!(el instanceof HTMLElement)) return "";
       const id = el.id;
       if (id) {
         const lbl = document.querySelector(`label[for="${id}"]`);
-        if (lbl) return (lbl as HTMLElement).innerText.toLowerCase();
+        if (lbl) return (lbl as HTMLElement).innerText;
       }
       const wrapping = el.closest("label");
-      if (wrapping) return (wrapping as HTMLElement).innerText.toLowerCase();
+      if (wrapping) return (wrapping as HTMLElement).innerText;
       // Walk up to find nearest element with visible text
       let cur: HTMLElement | null = el.parentElement;
       for (let d = 0; cur && d < 4; d += 1, cur = cur.parentElement) {
         const text = (cur.textContent || "").trim();
-        if (text.length > 0 && text.length < 120) return text.toLowerCase();
+        if (text.length > 0 && text.length < 120) return text;
       }
       return "";
     })
@@ -399,32 +354,58 @@ async function getOptionLabelText(
 }
 
 /**
- * Question: pick first answer option.
+ * Ask the answer strategy which candidate to take and describe the choice for the log.
+ */
+function chooseAnswer(
+  candidates: AnswerCandidate[],
+  context: StepContext,
+  source: AnswerRecord["source"],
+): AnswerRecord | null {
+  const choice = context.answerStrategy.choose(candidates, {
+    step: context.step,
+    decision: context.decision,
+  });
+  if (!choice || choice.index < 0 || choice.index >= candidates.length) return null;
+  const candidate = candidates[choice.index];
+  return {
+    step: context.step,
+    strategy: context.answerStrategy.name,
+    source,
+    index: choice.index,
+    total: candidates.length,
+    text: candidate.text.replace(/\s+/g, " ").trim().slice(0, 60),
+    reason: choice.reason,
+  };
+}
+
+function describeAnswer(answer: AnswerRecord): string {
+  return `Answer strategy "${answer.strategy}" picked ${answer.source} ${answer.index + 1}/${answer.total}: "${answer.text}" (${answer.reason}).`;
+}
+
+/**
+ * Question: pick an answer option via the active answer strategy.
  * Clicking strategy: label[for=id] → clickable parent → input itself.
  */
-async function clickOptionWithLabel(page: Page): Promise<{ clicked: boolean; messages: string[] }> {
+async function clickOptionWithLabel(page: Page, context: StepContext): Promise<OptionClickResult> {
   const messages: string[] = [];
-  const allInputs = page.locator(
-    "input[type='radio'], input[type='checkbox'], [role='radio'], [role='checkbox']",
-  );
+  const allInputs = page.locator(OPTION_INPUT_SELECTOR);
   const total = await allInputs.count();
   if (total === 0) return { clicked: false, messages };
 
   // --- Collect candidate indices with their label texts ---
   const candidates: Array<{ index: number; text: string }> = [];
   for (let i = 0; i < total && i < 20; i += 1) {
-    const text = await getOptionLabelText(page, allInputs.nth(i));
+    // Original case, like button candidates: a rule answer such as /Female/ must see "Female"
+    const text = await getOptionLabel(allInputs.nth(i));
     candidates.push({ index: i, text });
   }
 
-  // Поведение: вопрос → первый вариант ответа
-  const chosenIndex = candidates.length >= 1 ? candidates[0].index : null;
-  if (chosenIndex !== null) {
-    messages.push(`Picked first option (index ${chosenIndex}).`);
-  }
-  if (chosenIndex === null) return { clicked: false, messages };
+  // Поведение: вопрос → вариант ответа по стратегии
+  const answer = chooseAnswer(candidates, context, "radio");
+  if (!answer) return { clicked: false, messages };
+  messages.push(describeAnswer(answer));
 
-  const chosen = allInputs.nth(chosenIndex);
+  const chosen = allInputs.nth(candidates[answer.index].index);
   const role = (await chosen.getAttribute("role").catch(() => "")) || "";
   const inputType = (await chosen.getAttribute("type").catch(() => "")) || "";
 
@@ -433,14 +414,14 @@ async function clickOptionWithLabel(page: Page): Promise<{ clicked: boolean; mes
     try {
       await chosen.check({ timeout: 2_000, force: true });
       messages.push("Set chosen option via input.check().");
-      return { clicked: true, messages };
+      return { clicked: true, messages, answer };
     } catch {
       // Continue with click fallbacks below.
     }
   } else if (role === "radio" || role === "checkbox") {
     if (await clickLocator(chosen)) {
       messages.push("Clicked chosen ARIA radio/checkbox control.");
-      return { clicked: true, messages };
+      return { clicked: true, messages, answer };
     }
   }
 
@@ -451,7 +432,7 @@ async function clickOptionWithLabel(page: Page): Promise<{ clicked: boolean; mes
     if ((await label.count()) > 0 && (await label.isVisible().catch(() => false))) {
       if (await clickLocator(label)) {
         messages.push("Clicked label for chosen option.");
-        return { clicked: true, messages };
+        return { clicked: true, messages, answer };
       }
     }
   }
@@ -475,21 +456,21 @@ async function clickOptionWithLabel(page: Page): Promise<{ clicked: boolean; mes
   });
   if (parentClicked) {
     messages.push("Clicked parent container of chosen option.");
-    return { clicked: true, messages };
+    return { clicked: true, messages, answer };
   }
 
   if (await clickLocator(chosen)) {
     messages.push("Clicked chosen radio/checkbox input directly.");
-    return { clicked: true, messages };
+    return { clicked: true, messages, answer };
   }
 
   return { clicked: false, messages };
 }
 
 /**
- * Question: pick first option-like button (skip cookie/language).
+ * Question: pick an option-like button via the active answer strategy (skip cookie/language).
  */
-async function clickFirstOptionButton(page: Page): Promise<{ clicked: boolean; messages: string[] }> {
+async function clickOptionButton(page: Page, context: StepContext): Promise<OptionClickResult> {
   const messages: string[] = [];
   const navCta = /^(accept|reject|allow|agree|cookie|close|skip|settings?|einstellung|datenschutz|terms|privacy|ablehnen|akzeptieren|adjust)/i;
   const languageOption =
@@ -516,30 +497,30 @@ async function clickFirstOptionButton(page: Page): Promise<{ clicked: boolean; m
   }
   if (candidates.length === 0) return { clicked: false, messages };
 
-  // Поведение: вопрос → первый вариант ответа
-  const chosen = candidates[0];
-  messages.push(`Picked first button: "${chosen.text.slice(0, 60)}"`);
+  // Поведение: вопрос → вариант ответа по стратегии
+  const answer = chooseAnswer(candidates, context, "button");
+  if (!answer) return { clicked: false, messages };
+  const chosen = candidates[answer.index];
+  messages.push(describeAnswer(answer));
 
   if (await clickLocator(buttons.nth(chosen.index))) {
     messages.push(`Clicked option button: "${chosen.text}".`);
-    return { clicked: true, messages };
+    return { clicked: true, messages, answer };
   }
   return { clicked: false, messages };
 }
 
 /**
- * Question: pick first clickable option card.
+ * Question: pick a clickable option card via the active answer strategy.
+ * Cards are collected in one pass, the strategy chooses in Node, the second pass clicks by position.
  */
-async function clickFirstOptionCard(page: Page): Promise<{ clicked: boolean; messages: string[] }> {
+async function clickOptionCard(page: Page, context: StepContext): Promise<OptionClickResult> {
   const messages: string[] = [];
 
-  // Поведение: вопрос → первый вариант ответа (первая карточка)
-  const cards = await page.evaluate(() => {
+  const cardTexts = await page.evaluate(() => {
     const seen = new Set<string>();
-    const results: Array<{ text: string; index: number }> = [];
-    const els = document.querySelectorAll("*");
-    let idx = 0;
-    for (const el of Array.from(els)) {
+    const results: string[] = [];
+    for (const el of Array.from(document.querySelectorAll("*"))) {
       if (!(el instanceof HTMLElement)) continue;
       const style = window.getComputedStyle(el);
       if (style.cursor !== "pointer") continue;
@@ -549,13 +530,24 @@ async function clickFirstOptionCard(page: Page): Promise<{ clicked: boolean; mes
         const rect = el.getBoundingClientRect();
         if (rect.width > 40 && rect.height > 30) {
           seen.add(text);
-          results.push({ text, index: idx });
-          idx += 1;
+          results.push(text);
         }
       }
     }
-    if (results.length === 0) return null;
-    const chosen = results[0];
+    return results;
+  });
+  if (cardTexts.length === 0) return { clicked: false, messages };
+
+  // Поведение: вопрос → вариант ответа по стратегии (карточка)
+  const answer = chooseAnswer(
+    cardTexts.map((text, index) => ({ index, text })),
+    context,
+    "card",
+  );
+  if (!answer) return { clicked: false, messages };
+  messages.push(describeAnswer(answer));
+
+  const clickedText = await page.evaluate((chosenIndex) => {
     const seenAgain = new Set<string>();
     let counter = 0;
     for (const el of Array.from(document.querySelectorAll("*"))) {
@@ -568,26 +560,32 @@ async function clickFirstOptionCard(page: Page): Promise<{ clicked: boolean; mes
         const rect = el.getBoundingClientRect();
         if (rect.width > 40 && rect.height > 30) {
           seenAgain.add(t);
-          if (counter === chosen.index) {
+          if (counter === chosenIndex) {
             el.click();
-            return { text: t };
+            return t;
           }
           counter += 1;
         }
       }
     }
     return null;
-  });
+  }, answer.index);
 
-  if (cards) {
-    messages.push(`Clicked first option card: "${cards.text}".`);
-    return { clicked: true, messages };
+  if (clickedText !== null) {
+    messages.push(`Clicked option card: "${clickedText}".`);
+    return { clicked: true, messages, answer };
   }
   return { clicked: false, messages };
 }
 
-async function clickOtherCta(page: Page): Promise<{ performed: boolean; messages: string[] }> {
+async function clickOtherCta(page: Page, context: StepContext): Promise<ActionResult> {
   const messages: string[] = [];
+  const ruleSelectors = ruleCtaSelectors(context.rules);
+  if (ruleSelectors.length > 0 && (await clickFirstVisible(page, ruleSelectors))) {
+    messages.push("Clicked rule CTA selector.");
+    await page.waitForTimeout(1_500);
+    return { performed: true, messages };
+  }
   // Шаг 5: expanded CTA list for other-type screens
   const ctaTexts = [
     "далее", "start", "continue", "next", "begin", "get started", "unlock", "let's go", "go on",
@@ -608,16 +606,16 @@ async function clickOtherCta(page: Page): Promise<{ performed: boolean; messages
   }
 
   // Try option buttons/cards (the screen might actually be a question misclassified as other)
-  const optBtn = await clickFirstOptionButton(page);
+  const optBtn = await clickOptionButton(page, context);
   if (optBtn.clicked) {
     messages.push(...optBtn.messages);
-    return { performed: true, messages };
+    return { performed: true, messages, answer: optBtn.answer };
   }
 
-  const optCard = await clickFirstOptionCard(page);
+  const optCard = await clickOptionCard(page, context);
   if (optCard.clicked) {
     messages.push(...optCard.messages);
-    return { performed: true, messages };
+    return { performed: true, messages, answer: optCard.answer };
   }
 
   const clickedFallback = await clickFirstVisible(page, [
@@ -637,36 +635,50 @@ async function clickOtherCta(page: Page): Promise<{ performed: boolean; messages
   return { performed: false, messages };
 }
 
-export async function handleStepAction(page: Page, type: ScreenType): Promise<ActionResult> {
+export async function handleStepAction(
+  page: Page,
+  type: ScreenType,
+  stepContext: StepContext,
+): Promise<ActionResult> {
   const messages = await closeCommonPopups(page);
+  const ctaSelectors = ruleCtaSelectors(stepContext.rules);
+  // A rule answer replaces the run's strategy on this screen only
+  const ruleAnswer = stepContext.rules?.screen?.answer;
+  const context: StepContext = ruleAnswer
+    ? { ...stepContext, answerStrategy: matchStrategy(textMatcher(ruleAnswer)) }
+    : stepContext;
+  if (ruleAnswer) messages.push(`Rule ${stepContext.rules?.matched.join(", ")}: answer ${ruleAnswer}.`);
 
   switch (type) {
     case "question": {
       const radioOrCheckboxCount = await page
-        .locator("input[type='radio'], input[type='checkbox'], [role='radio'], [role='checkbox']")
+        .locator(OPTION_INPUT_SELECTOR)
         .count()
         .catch(() => 0);
       // Try radio/checkbox with label/parent click (handles both traditional and card-wrapped radios)
-      const optionResult = await clickOptionWithLabel(page);
+      const optionResult = await clickOptionWithLabel(page, context);
       messages.push(...optionResult.messages);
       let clickedOption = optionResult.clicked;
+      let answer = optionResult.answer;
 
       // If no radio/checkbox, try option-like buttons (e.g. Coursiv MALE/FEMALE)
       if (!clickedOption && radioOrCheckboxCount === 0) {
-        const btnResult = await clickFirstOptionButton(page);
+        const btnResult = await clickOptionButton(page, context);
         messages.push(...btnResult.messages);
         clickedOption = btnResult.clicked;
+        answer = btnResult.answer;
       }
 
       // If still nothing, try clickable card divs
       if (!clickedOption && radioOrCheckboxCount === 0) {
-        const cardResult = await clickFirstOptionCard(page);
+        const cardResult = await clickOptionCard(page, context);
         messages.push(...cardResult.messages);
         clickedOption = cardResult.clicked;
+        answer = cardResult.answer;
       }
 
       // Try continue/next button (some screens need option + next)
-      const clickedContinue = await clickQuestionCta(page);
+      const clickedContinue = await clickQuestionCta(page, ctaSelectors);
       let pressedEnterFallback = false;
       if (clickedContinue) {
         messages.push("Clicked strict question CTA.");
@@ -679,21 +691,17 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
       return {
         performed: clickedOption || clickedContinue || pressedEnterFallback,
         messages,
+        answer: clickedOption ? answer : undefined,
       };
     }
 
     case "input": {
       messages.push("Input screen detected. Filling fields.");
-      const fillMessages = await fillInputByHints(page);
+      const fillMessages = await fillInputByHints(page, context.persona);
       messages.push(...fillMessages);
 
       if (fillMessages.length === 0) {
-        const bodyText = (await page.innerText("body").catch(() => "")).toLowerCase();
-        let value = "1";
-        if (/height|cm|how tall/i.test(bodyText)) value = INPUT_DEFAULTS.height;
-        else if (/weight|kg|lbs/i.test(bodyText)) value = INPUT_DEFAULTS.weight;
-        else if (/age|how old|years/i.test(bodyText)) value = INPUT_DEFAULTS.age;
-        else if (/name/i.test(bodyText)) value = INPUT_DEFAULTS.name;
+        const value = await guessValueFromBody(page, context.persona);
 
         const anyInput = page.locator(
           "input[type='text']:visible, input[type='number']:visible, input:not([type]):visible",
@@ -704,7 +712,7 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
         } else {
           // No real input on page — treat as info/other and just click CTA
           messages.push("No input fields found. Treating as info screen.");
-          const clickedContinue = await clickContinue(page);
+          const clickedContinue = await clickContinue(page, ctaSelectors);
           if (clickedContinue) {
             messages.push("Clicked continue/next (no-input fallback).");
           } else {
@@ -724,7 +732,7 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
       messages.push("Input filled. Attempting continue.");
       await page.waitForTimeout(250);
 
-      let clickedContinue = await clickContinue(page);
+      let clickedContinue = await clickContinue(page, ctaSelectors);
       if (!clickedContinue) {
         const allInputs = page.locator(
           "input[type='text']:visible, input[type='number']:visible, input:not([type]):visible",
@@ -735,7 +743,7 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
           await allInputs.nth(i).dispatchEvent("change").catch(() => {});
         }
         await page.waitForTimeout(150);
-        clickedContinue = await clickContinue(page);
+        clickedContinue = await clickContinue(page, ctaSelectors);
         if (!clickedContinue) {
           messages.push("Continue button still disabled after fill.");
         }
@@ -758,17 +766,17 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
           "input[placeholder*='email' i]:visible, input[name*='email' i]:visible, input[aria-label*='email' i]:visible, input[type='text']:visible, input:not([type]):visible",
         ).first();
         if ((await emailLikeInput.count()) > 0) {
-          await reactSafeType(emailLikeInput, page, INPUT_DEFAULTS.email);
-          emailMessages.push(`Filled email=${INPUT_DEFAULTS.email} (text input fallback).`);
+          await reactSafeType(emailLikeInput, page, context.persona.email);
+          emailMessages.push(`Filled email=${context.persona.email} (text input fallback).`);
           await page.keyboard.press("Tab").catch(() => undefined);
           await page.keyboard.press("Enter").catch(() => undefined);
         } else {
-          const fillMessages = await fillInputByHints(page);
+          const fillMessages = await fillInputByHints(page, context.persona);
           messages.push(...fillMessages);
           emailMessages.push(...fillMessages);
         }
       } else {
-        emailMessages = await submitEmailStep(page);
+        emailMessages = await submitEmailStep(page, context.persona, context.loopSimilarity ?? RUN_CONFIG.loopSimilarity);
       }
       messages.push(...emailMessages);
 
@@ -824,7 +832,7 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
         }
       }
 
-      const clickedContinue = await clickContinue(page);
+      const clickedContinue = await clickContinue(page, ctaSelectors);
       if (clickedContinue) {
         messages.push("Clicked continue/next.");
       }
@@ -833,7 +841,7 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
     }
 
     case "info": {
-      const clickedContinue = await clickContinue(page);
+      const clickedContinue = await clickContinue(page, ctaSelectors);
       if (clickedContinue) {
         messages.push("Clicked continue/next.");
       }
@@ -849,9 +857,9 @@ export async function handleStepAction(page: Page, type: ScreenType): Promise<Ac
     }
 
     case "other": {
-      const otherAction = await clickOtherCta(page);
+      const otherAction = await clickOtherCta(page, context);
       messages.push(...otherAction.messages);
-      return { performed: otherAction.performed, messages };
+      return { performed: otherAction.performed, messages, answer: otherAction.answer };
     }
 
     case "paywall":
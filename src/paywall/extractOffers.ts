@@ -0,0 +1,237 @@
+import type { Page } from "playwright";
+import { PRICE_CONFIG } from "../config";
+import { convertAmount, loadRates, parsePrice, PRICE_PATTERN_SOURCE, type CurrencyRates } from "./priceParser";
+
+export type BillingUnit = "day" | "week" | "month" | "year";
+
+export type PaywallOffer = {
+  planName: string | null;
+  /** Price charged for the billing period (first charge after trial, or intro price if shown). */
+  price: number | null;
+  priceText: string | null;
+  /** Strikethrough "was" price. */
+  originalPrice: number | null;
+  currency: string | null;
+  /** price / originalPrice / perDayPrice converted to PRICE_CONFIG.baseCurrency via the rates file. */
+  normalized: { currency: string; price: number | null; originalPrice: number | null; perDayPrice: number | null } | null;
+  billingPeriod: { count: number; unit: BillingUnit } | null;
+  trialDays: number | null;
+  perDayPrice: number | null;
+  discountBadge: string | null;
+  mostPopular: boolean;
+  preselected: boolean;
+  rawText: string;
+};
+
+/** What the browser side hands back for one plan card. */
+type RawPlanCard = {
+  text: string;
+  lines: string[];
+  prices: Array<{ text: string; struck: boolean; line: string }>;
+  selected: boolean;
+};
+
+
+/**
+ * Find plan cards in the DOM: the smallest ancestors of price texts whose siblings hold other prices.
+ * Runs in the browser; returns plain text so parsing stays testable in Node.
+ */
+async function collectPlanCards(page: Page): Promise<RawPlanCard[]> {
+  return page.evaluate((priceSource) => {
+    const priceRe = new RegExp(priceSource, "u");
+    // Object methods: tsx would wrap named inner functions in __name(), which the page lacks.
+    const dom = {
+      isVisible(el: HTMLElement): boolean {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== "hidden" && style.display !== "none";
+      },
+      isStruck(el: HTMLElement): boolean {
+        for (let cur: HTMLElement | null = el, depth = 0; cur && depth < 3; cur = cur.parentElement, depth += 1) {
+          if (["S", "DEL", "STRIKE"].includes(cur.tagName)) return true;
+          if (window.getComputedStyle(cur).textDecorationLine.includes("line-through")) return true;
+        }
+        return false;
+      },
+      isSelectable(el: HTMLElement): boolean {
+        return (
+          el.tagName === "LABEL" ||
+          el.tagName === "BUTTON" ||
+          ["radio", "option", "button"].includes(el.getAttribute("role") ?? "") ||
+          el.querySelector(":scope > input[type='radio']") !== null
+        );
+      },
+      signature(el: Element): string {
+        return `${el.tagName}.${el.className}`;
+      },
+      // Card, first try: outermost selectable ancestor (plans are usually radio-like cards).
+      // Second try: child of the first ancestor that holds several look-alike priced children.
+      cardFor(el: HTMLElement, priceEls: HTMLElement[]): HTMLElement {
+        let selectable: HTMLElement | null = null;
+        for (let cur: HTMLElement | null = el; cur && cur !== document.body; cur = cur.parentElement) {
+          if (dom.isSelectable(cur)) selectable = cur;
+        }
+        if (selectable) return selectable;
+
+        let card = el;
+        for (let cur = el.parentElement; cur && cur !== document.body; cur = cur.parentElement) {
+          const pricedChildren = Array.from(cur.children).filter((child) =>
+            priceEls.some((priceEl) => child.contains(priceEl)),
+          );
+          const signatures = pricedChildren.map((child) => dom.signature(child));
+          if (pricedChildren.length >= 2 && new Set(signatures).size < signatures.length) return card;
+          card = cur;
+        }
+        return card;
+      },
+    };
+
+    // Leaf-ish elements carrying a price.
+    const priceEls: HTMLElement[] = [];
+    for (const el of Array.from(document.body.querySelectorAll("*"))) {
+      if (!(el instanceof HTMLElement) || !dom.isVisible(el)) continue;
+      const ownText = Array.from(el.childNodes)
+        .filter((node) => node.nodeType === Node.TEXT_NODE)
+        .map((node) => node.textContent || "")
+        .join(" ");
+      if (priceRe.test(ownText) || (el.children.length === 0 && priceRe.test(el.innerText))) {
+        priceEls.push(el);
+      }
+    }
+    if (priceEls.length === 0) return [];
+
+    const cards = new Map<HTMLElement, HTMLElement[]>();
+    for (const priceEl of priceEls) {
+      const card = dom.cardFor(priceEl, priceEls);
+      cards.set(card, [...(cards.get(card) ?? []), priceEl]);
+    }
+
+    const activeClass = /(^|[\s_-])(active|selected|checked|current)($|[\s_-])/i;
+    return Array.from(cards.entries()).map(([card, els]) => {
+      const text = card.innerText.replace(/[ \t]+/g, " ").trim();
+      const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+      const checkedInput = card.querySelector("input:checked");
+      const selected =
+        checkedInput !== null ||
+        card.getAttribute("aria-checked") === "true" ||
+        card.getAttribute("aria-selected") === "true" ||
+        card.querySelector("[aria-checked='true'], [aria-selected='true']") !== null ||
+        activeClass.test(card.className || "");
+      return {
+        text,
+        lines,
+        selected,
+        prices: els.map((el) => {
+          const priceText = el.innerText.replace(/\s+/g, " ").trim();
+          return {
+            text: priceText,
+            struck: dom.isStruck(el),
+            line: lines.find((line) => line.includes(priceText)) ?? priceText,
+          };
+        }),
+      };
+    });
+  }, PRICE_PATTERN_SOURCE);
+}
+
+function parseBillingPeriod(text: string): PaywallOffer["billingPeriod"] {
+  const explicit = text.match(/(\d+)[\s-]*(day|week|month|year)s?\b(?![\s-]*(free\s*)?trial)/i);
+  if (explicit) return { count: Number(explicit[1]), unit: explicit[2].toLowerCase() as BillingUnit };
+  // "/" is not a word character: the slash forms need their own boundary, or " / month" never matches
+  if (/\b(weekly|per week)\b|\/\s*(week|wk)\b/i.test(text)) return { count: 1, unit: "week" };
+  if (/\b(monthly|per month)\b|\/\s*(month|mo)\b/i.test(text)) return { count: 1, unit: "month" };
+  if (/\b(quarterly)\b/i.test(text)) return { count: 3, unit: "month" };
+  if (/\b(annual|annually|yearly|per year)\b|\/\s*(year|yr)\b/i.test(text)) return { count: 1, unit: "year" };
+  return null;
+}
+
+function parseTrialDays(text: string): number | null {
+  const match = text.match(/(\d+)[\s-]*(day|week)s?[\s-]*(free\s*)?trial/i) ?? text.match(/trial[^\d]{0,12}(\d+)[\s-]*(day|week)/i);
+  if (!match) return /free trial/i.test(text) ? 0 : null;
+  return Number(match[1]) * (match[2].toLowerCase() === "week" ? 7 : 1);
+}
+
+function periodDays(period: NonNullable<PaywallOffer["billingPeriod"]>): number {
+  const perUnit: Record<BillingUnit, number> = { day: 1, week: 7, month: 30, year: 365 };
+  return period.count * perUnit[period.unit];
+}
+
+const PER_DAY = /^\s*(\/|per\b|a\b)\s*day\b/i;
+const BADGE = /(\d+\s*%\s*off|save\s*\d+\s*%|-\s*\d+\s*%|best value|most popular|popular|best choice|recommended|bestseller|best deal)/i;
+const MOST_POPULAR = /(most popular|best value|best choice|recommended|bestseller|popular)/i;
+
+/**
+ * A per-day amount is followed by its own "/day" or "per day". The line alone can't tell:
+ * cards often print "$29.99 / month · $0.99 / day" on one line.
+ */
+function isPerDayPrice(price: RawPlanCard["prices"][number]): boolean {
+  const at = price.line.indexOf(price.text);
+  const text = at >= 0 ? price.line.slice(at) : price.text;
+  const amount = text.match(new RegExp(PRICE_PATTERN_SOURCE, "u"));
+  return amount?.index !== undefined && PER_DAY.test(text.slice(amount.index + amount[0].length));
+}
+
+function parsePlanCard(card: RawPlanCard): PaywallOffer {
+  const perDay = card.prices.find((price) => !price.struck && isPerDayPrice(price));
+  const main = card.prices.find((price) => !price.struck && price !== perDay) ?? null;
+  const struck = card.prices.find((price) => price.struck && !isPerDayPrice(price)) ?? null;
+  const mainParsed = main ? parsePrice(main.text) : null;
+  const perDayParsed = perDay ? parsePrice(perDay.text) : null;
+  const billingPeriod = parseBillingPeriod(card.text);
+
+  let perDayPrice = perDayParsed?.amount ?? null;
+  if (perDayPrice === null && mainParsed && billingPeriod) {
+    perDayPrice = Number((mainParsed.amount / periodDays(billingPeriod)).toFixed(2));
+  }
+
+  const planName =
+    card.lines.find((line) => {
+      if (new RegExp(PRICE_PATTERN_SOURCE, "u").test(line)) return false;
+      if (BADGE.test(line) && line.length < 25) return false;
+      return /[a-z]/i.test(line) && line.length <= 40;
+    }) ?? null;
+
+  return {
+    planName,
+    price: mainParsed?.amount ?? null,
+    priceText: main?.text ?? null,
+    originalPrice: struck ? (parsePrice(struck.text)?.amount ?? null) : null,
+    currency: mainParsed?.currency ?? perDayParsed?.currency ?? null,
+    normalized: null,
+    billingPeriod,
+    trialDays: parseTrialDays(card.text),
+    perDayPrice,
+    discountBadge: card.text.match(BADGE)?.[0] ?? null,
+    mostPopular: MOST_POPULAR.test(card.text),
+    preselected: card.selected,
+    rawText: card.text.slice(0, 400),
+  };
+}
+
+function normalizeOffer(offer: PaywallOffer, rates: CurrencyRates, baseCurrency: string): PaywallOffer {
+  if (!offer.currency) return offer;
+  const from = offer.currency;
+  const convert = (amount: number | null) => (amount === null ? null : convertAmount(amount, from, baseCurrency, rates));
+  const price = convert(offer.price);
+  if (offer.price !== null && price === null) return offer;
+  return {
+    ...offer,
+    normalized: {
+      currency: baseCurrency,
+      price,
+      originalPrice: convert(offer.originalPrice),
+      perDayPrice: convert(offer.perDayPrice),
+    },
+  };
+}
+
+/**
+ * Extract one PaywallOffer per visible plan on the current (paywall) screen.
+ */
+export async function extractPaywallOffers(page: Page): Promise<PaywallOffer[]> {
+  const cards = await collectPlanCards(page);
+  const offers = cards.filter((card) => card.prices.length > 0).map(parsePlanCard);
+  const rates = await loadRates();
+  if (!rates) return offers;
+  return offers.map((offer) => normalizeOffer(offer, rates, PRICE_CONFIG.baseCurrency));
+}
@@ -0,0 +1,176 @@
+import { readFile } from "node:fs/promises";
+import { PRICE_CONFIG } from "../config";
+
+export type ParsedPrice = {
+  raw: string;
+  amount: number;
+  /** ISO 4217 code, null when the token had no recognisable currency. */
+  currency: string | null;
+  index: number;
+};
+
+/** rates.json: how many units of each currency one unit of `base` buys. */
+export type CurrencyRates = {
+  base: string;
+  asOf?: string;
+  rates: Record<string, number>;
+};
+
+/**
+ * Currency markers → ISO code. Longer markers first so "R$" wins over "$".
+ * Three-letter codes are matched case-sensitively (upper case) to avoid words like "try" or "all".
+ */
+const CURRENCY_MARKERS: Array<[string, string]> = [
+  ["US$", "USD"],
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["A$", "AUD"],
+  ["R$", "BRL"],
+  ["MX$", "MXN"],
+  ["руб.", "RUB"],
+  ["руб", "RUB"],
+  ["zł", "PLN"],
+  ["Kč", "CZK"],
+  ["kr", "SEK"],
+  ["Fr.", "CHF"],
+  ["$", "USD"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["₽", "RUB"],
+  ["₺", "TRY"],
+  ["₴", "UAH"],
+  ["₩", "KRW"],
+  ["USD", "USD"],
+  ["EUR", "EUR"],
+  ["GBP", "GBP"],
+  ["CHF", "CHF"],
+  ["PLN", "PLN"],
+  ["BRL", "BRL"],
+  ["INR", "INR"],
+  ["JPY", "JPY"],
+  ["RUB", "RUB"],
+  ["CAD", "CAD"],
+  ["AUD", "AUD"],
+  ["MXN", "MXN"],
+  ["TRY", "TRY"],
+  ["SEK", "SEK"],
+  ["NOK", "NOK"],
+  ["DKK", "DKK"],
+  ["CZK", "CZK"],
+  ["UAH", "UAH"],
+];
+
+/** Currencies priced in whole units, where "1.000" is always a thousand. */
+const ZERO_DECIMAL = new Set(["JPY", "KRW"]);
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const MARKER_SOURCE = CURRENCY_MARKERS.map(([marker]) => escapeRegex(marker)).join("|");
+const AMOUNT_SOURCE = "\\d{1,3}(?:[.,\\s\\u00a0\\u202f]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?";
+
+/**
+ * Regex source for one price token: marker before ("$19.99", "R$ 49,90") or after ("19,99 €", "499 zł").
+ * Exported as a string so browser-side code (page.evaluate) can build the same regex.
+ */
+export const PRICE_PATTERN_SOURCE =
+  `(?<![\\d\\p{L}])(?:(?:${MARKER_SOURCE})\\s?(?:${AMOUNT_SOURCE})|(?:${AMOUNT_SOURCE})\\s?(?:${MARKER_SOURCE}))(?![\\d\\p{L}])`;
+
+function markerToCurrency(token: string): string | null {
+  for (const [marker, code] of CURRENCY_MARKERS) {
+    if (token.includes(marker)) return code;
+  }
+  return null;
+}
+
+/**
+ * "1,299.99" / "1.299,99" / "19,99" / "1 299" / "1.000" → number.
+ * A lone separator followed by exactly three digits is a thousands separator.
+ */
+export function parseAmount(raw: string, currency: string | null = null): number | null {
+  const compact = raw.replace(/[\s\u00a0\u202f]/g, "");
+  if (!/^\d[\d.,]*$/.test(compact)) return null;
+  const lastDot = compact.lastIndexOf(".");
+  const lastComma = compact.lastIndexOf(",");
+  let normalized: string;
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const thousands = decimal === "." ? "," : ".";
+    normalized = compact.split(thousands).join("").replace(decimal, ".");
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? "." : ",";
+    const parts = compact.split(separator);
+    const tail = parts[parts.length - 1];
+    const isThousands = parts.length > 2 || tail.length === 3 || (currency !== null && ZERO_DECIMAL.has(currency));
+    normalized = isThousands ? parts.join("") : `${parts.slice(0, -1).join("")}.${tail}`;
+  } else {
+    normalized = compact;
+  }
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function parsePrice(token: string): ParsedPrice | null {
+  const amountMatch = token.match(new RegExp(AMOUNT_SOURCE));
+  if (!amountMatch) return null;
+  const currency = markerToCurrency(token.replace(amountMatch[0], " "));
+  const amount = parseAmount(amountMatch[0], currency);
+  if (amount === null) return null;
+  return { raw: token.trim(), amount, currency, index: 0 };
+}
+
+/**
+ * All price tokens in a text (HTML or innerText), in order of appearance.
+ */
+export function parsePrices(text: string): ParsedPrice[] {
+  const results: ParsedPrice[] = [];
+  for (const match of text.matchAll(new RegExp(PRICE_PATTERN_SOURCE, "gu"))) {
+    const parsed = parsePrice(match[0]);
+    if (parsed) results.push({ ...parsed, index: match.index ?? 0 });
+  }
+  return results;
+}
+
+export function formatPrice(price: Pick<ParsedPrice, "amount" | "currency">): string {
+  return `${price.amount.toFixed(2)} ${price.currency ?? "?"}`;
+}
+
+let cachedRates: CurrencyRates | null | undefined;
+
+/**
+ * Read the local rates file (PRICE_CONFIG.ratesFile). Missing file → null, normalization is skipped.
+ */
+export async function loadRates(path: string = PRICE_CONFIG.ratesFile): Promise<CurrencyRates | null> {
+  if (cachedRates !== undefined && path === PRICE_CONFIG.ratesFile) return cachedRates;
+  let rates: CurrencyRates | null = null;
+  try {
+    const parsed = JSON.parse(await readFile(path, "utf8")) as CurrencyRates;
+    if (typeof parsed.base !== "string" || typeof parsed.rates !== "object" || parsed.rates === null) {
+      throw new Error(`${path}: expected { "base": "USD", "rates": { "EUR": 0.92, ... } }`);
+    }
+    rates = { ...parsed, rates: { ...parsed.rates, [parsed.base]: 1 } };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  if (path === PRICE_CONFIG.ratesFile) cachedRates = rates;
+  return rates;
+}
+
+/**
+ * Convert between any two currencies listed in the rates file. null when either is unknown.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: CurrencyRates,
+): number | null {
+  if (from === to) return amount;
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  if (!fromRate || !toRate) return null;
+  return Number(((amount / fromRate) * toRate).toFixed(2));
+}
@@ -0,0 +1,184 @@
+import { access, readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { DEFAULT_PERSONA, PERSONA_DIR } from "../config";
+
+export type Gender = "male" | "female";
+
+/**
+ * Who the runner pretends to be. Both unit systems are always filled in, so handlers
+ * can type whatever the page currently asks for.
+ */
+export type Persona = {
+  id: string;
+  name: string;
+  email: string;
+  gender: Gender;
+  age: number;
+  /** ISO date, YYYY-MM-DD. */
+  dateOfBirth: string;
+  height: { cm: number; ft: number; in: number };
+  weight: { kg: number; lbs: number };
+  targetWeight: { kg: number; lbs: number };
+  goal: string;
+};
+
+/** Persona file shape: one unit system per measurement is enough, age or dateOfBirth is enough. */
+type PersonaFile = {
+  id?: unknown;
+  name?: unknown;
+  email?: unknown;
+  gender?: unknown;
+  age?: unknown;
+  dateOfBirth?: unknown;
+  height?: { cm?: unknown; ft?: unknown; in?: unknown };
+  weight?: { kg?: unknown; lbs?: unknown };
+  targetWeight?: { kg?: unknown; lbs?: unknown };
+  goal?: unknown;
+};
+
+const CM_PER_INCH = 2.54;
+const LBS_PER_KG = 2.20462;
+const PERSONA_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid persona ${source}: ${message}`);
+}
+
+function readNumber(source: string, field: string, value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed < 0) {
+    fail(source, `"${field}" must be a non-negative number.`);
+  }
+  return parsed;
+}
+
+function readString(source: string, field: string, value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" || value.trim() === "") fail(source, `"${field}" must be a non-empty string.`);
+  return value.trim();
+}
+
+function ageFromDateOfBirth(dateOfBirth: string, now = new Date()): number {
+  const birth = new Date(`${dateOfBirth}T00:00:00Z`);
+  let age = now.getUTCFullYear() - birth.getUTCFullYear();
+  const beforeBirthday =
+    now.getUTCMonth() < birth.getUTCMonth() ||
+    (now.getUTCMonth() === birth.getUTCMonth() && now.getUTCDate() < birth.getUTCDate());
+  if (beforeBirthday) age -= 1;
+  return age;
+}
+
+function dateOfBirthFromAge(age: number, now = new Date()): string {
+  return `${now.getUTCFullYear() - age}-01-15`;
+}
+
+function resolveHeight(source: string, raw: PersonaFile["height"], fallback: Persona["height"]): Persona["height"] {
+  const cm = readNumber(source, "height.cm", raw?.cm);
+  const ft = readNumber(source, "height.ft", raw?.ft);
+  const inches = readNumber(source, "height.in", raw?.in);
+  if (cm !== undefined) {
+    const totalInches = Math.round(cm / CM_PER_INCH);
+    return { cm: Math.round(cm), ft: Math.floor(totalInches / 12), in: totalInches % 12 };
+  }
+  if (ft !== undefined || inches !== undefined) {
+    const totalInches = (ft ?? 0) * 12 + (inches ?? 0);
+    return { cm: Math.round(totalInches * CM_PER_INCH), ft: Math.floor(totalInches / 12), in: totalInches % 12 };
+  }
+  return fallback;
+}
+
+function resolveWeight(
+  source: string,
+  field: string,
+  raw: PersonaFile["weight"],
+  fallback: Persona["weight"],
+): Persona["weight"] {
+  const kg = readNumber(source, `${field}.kg`, raw?.kg);
+  const lbs = readNumber(source, `${field}.lbs`, raw?.lbs);
+  if (kg !== undefined) return { kg: Math.round(kg), lbs: Math.round(kg * LBS_PER_KG) };
+  if (lbs !== undefined) return { kg: Math.round(lbs / LBS_PER_KG), lbs: Math.round(lbs) };
+  return fallback;
+}
+
+/**
+ * Validate a parsed persona file and fill the gaps from DEFAULT_PERSONA.
+ */
+export function normalizePersona(raw: unknown, source: string): Persona {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) fail(source, "expected an object.");
+  const file = raw as PersonaFile;
+
+  const gender = readString(source, "gender", file.gender)?.toLowerCase() ?? DEFAULT_PERSONA.gender;
+  if (gender !== "male" && gender !== "female") fail(source, `"gender" must be "male" or "female".`);
+
+  const dateOfBirth = readString(source, "dateOfBirth", file.dateOfBirth);
+  if (dateOfBirth !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth)) {
+    fail(source, `"dateOfBirth" must be YYYY-MM-DD.`);
+  }
+  const explicitAge = readNumber(source, "age", file.age);
+  const age = explicitAge ?? (dateOfBirth ? ageFromDateOfBirth(dateOfBirth) : DEFAULT_PERSONA.age);
+
+  const weight = resolveWeight(source, "weight", file.weight, DEFAULT_PERSONA.weight);
+  return {
+    id: readString(source, "id", file.id) ?? DEFAULT_PERSONA.id,
+    name: readString(source, "name", file.name) ?? DEFAULT_PERSONA.name,
+    email: readString(source, "email", file.email) ?? DEFAULT_PERSONA.email,
+    gender,
+    age,
+    dateOfBirth: dateOfBirth ?? dateOfBirthFromAge(age),
+    height: resolveHeight(source, file.height, DEFAULT_PERSONA.height),
+    weight,
+    targetWeight: resolveWeight(source, "targetWeight", file.targetWeight, {
+      kg: Math.round(weight.kg * 0.9),
+      lbs: Math.round(weight.lbs * 0.9),
+    }),
+    goal: readString(source, "goal", file.goal) ?? DEFAULT_PERSONA.goal,
+  };
+}
+
+async function exists(path: string): Promise<boolean> {
+  return access(path).then(
+    () => true,
+    () => false,
+  );
+}
+
+export async function loadPersonaFile(path: string): Promise<Persona> {
+  const raw = await readFile(path, "utf8").catch(() => fail(path, "file not found."));
+  let parsed: unknown;
+  try {
+    parsed = extname(path) === ".json" ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    fail(path, `cannot parse (${message}).`);
+  }
+  const persona = normalizePersona(parsed, path);
+  // Persona id defaults to the file name so `--persona=anna` and personas/anna.yaml line up.
+  const hasId = typeof parsed === "object" && parsed !== null && "id" in parsed;
+  return hasId ? persona : { ...persona, id: path.replace(/^.*\//, "").replace(/\.(json|ya?ml)$/, "") };
+}
+
+/**
+ * Resolve "--persona" value: "default", a file path, or an id looked up in PERSONA_DIR.
+ */
+export async function loadPersona(ref: string): Promise<Persona> {
+  const trimmed = ref.trim();
+  if (trimmed === "" || trimmed === "default") return DEFAULT_PERSONA;
+  if (PERSONA_EXTENSIONS.includes(extname(trimmed)) || trimmed.includes("/")) {
+    return loadPersonaFile(trimmed);
+  }
+  for (const extension of PERSONA_EXTENSIONS) {
+    const candidate = `${PERSONA_DIR}/${trimmed}${extension}`;
+    if (await exists(candidate)) return loadPersonaFile(candidate);
+  }
+  throw new Error(`Persona "${trimmed}" not found (looked for ${PERSONA_DIR}/${trimmed}.json|.yaml|.yml).`);
+}
+
+/**
+ * Comma-separated list → personas, e.g. "default,anna,personas/old-man.yaml".
+ */
+export async function loadPersonas(refs: string): Promise<Persona[]> {
+  const list = refs.split(",").map((item) => item.trim()).filter(Boolean);
+  return Promise.all((list.length > 0 ? list : ["default"]).map((item) => loadPersona(item)));
+}
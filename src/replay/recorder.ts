@@ -0,0 +1,179 @@
+import type { BrowserContext } from "playwright";
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { AnswerRecord } from "../navigator/answerStrategy";
+import type { DeviceSettings } from "../runner/device";
+import type { EmulationSettings } from "../runner/emulation";
+import { writeJsonFile } from "../utils/fileManager";
+
+/** The element an action hit, described three ways so replay can still find it if one breaks. */
+export type ReplayElement = {
+  tag: string;
+  /** Explicit or implicit ARIA role (button, link, radio, checkbox, textbox…), null if none. */
+  role: string | null;
+  /** Visible text, or the label / placeholder of a form field. */
+  text: string;
+  /** CSS path from the nearest stable id (or body) down to the element. */
+  selector: string;
+};
+
+export type ReplayAction =
+  | { kind: "click"; element: ReplayElement }
+  | { kind: "fill"; element: ReplayElement; value: string }
+  | { kind: "press"; key: string; element: ReplayElement | null };
+
+export type ReplayStep = {
+  step: number;
+  screenType: ScreenType;
+  screenKey: string;
+  headline: string;
+  actions: ReplayAction[];
+  /** Answer picked on this step, copied into the replayed run's summary. */
+  answer: AnswerRecord | null;
+};
+
+/** replay.json: everything needed to drive the same path again (see replayer.ts). */
+export type ReplayFile = {
+  url: string;
+  recordedAt: string;
+  persona: string;
+  device: DeviceSettings;
+  emulation: EmulationSettings | null;
+  steps: ReplayStep[];
+};
+
+const BINDING = "__funnelRunnerRecordAction";
+
+/**
+ * Runs in every frame: reports clicks, typed values and Enter/Tab/Escape presses to the runner.
+ * Label clicks re-dispatch a click to their control; that echo is dropped.
+ */
+function recorderScript(binding: string): void {
+  const win = window as unknown as Record<string, (action: unknown) => void>;
+  const dom = {
+    role(el: Element): string | null {
+      const explicit = el.getAttribute("role");
+      if (explicit) return explicit;
+      const tag = el.tagName.toLowerCase();
+      if (tag === "button") return "button";
+      if (tag === "a" && el.hasAttribute("href")) return "link";
+      if (tag === "select") return "combobox";
+      if (tag === "textarea") return "textbox";
+      if (tag === "input") {
+        const type = (el.getAttribute("type") || "text").toLowerCase();
+        if (type === "radio" || type === "checkbox") return type;
+        if (["submit", "button", "reset", "image"].includes(type)) return "button";
+        return "textbox";
+      }
+      return null;
+    },
+    path(el: Element): string {
+      const parts: string[] = [];
+      for (let cur: Element | null = el; cur && cur !== document.body && cur !== document.documentElement; cur = cur.parentElement) {
+        if (cur.id && !/\d{4,}|[:.]/.test(cur.id)) {
+          parts.unshift(`#${CSS.escape(cur.id)}`);
+          return parts.join(" > ");
+        }
+        const tag = cur.tagName.toLowerCase();
+        const self = cur;
+        const sameTag = cur.parentElement ? Array.from(cur.parentElement.children).filter((child) => child.tagName === self.tagName) : [];
+        parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(cur) + 1})` : tag);
+      }
+      return ["body", ...parts].join(" > ");
+    },
+    describe(el: Element) {
+      let text = "";
+      if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) {
+        const label = el.labels && el.labels.length > 0 ? el.labels[0].innerText : "";
+        const buttonValue = el instanceof HTMLInputElement && ["submit", "button"].includes(el.type) ? el.value : "";
+        text = label || el.getAttribute("aria-label") || el.getAttribute("placeholder") || buttonValue;
+      } else {
+        text = (el as HTMLElement).innerText || el.getAttribute("aria-label") || "";
+      }
+      return { tag: el.tagName.toLowerCase(), role: dom.role(el), text: text.replace(/\s+/g, " ").trim().slice(0, 80), selector: dom.path(el) };
+    },
+  };
+  const interactive = "button, a, label, input, select, textarea, [role='button'], [role='radio'], [role='checkbox'], [role='option'], [role='link']";
+  let labelClick: { control: Element | null; at: number } = { control: null, at: 0 };
+
+  document.addEventListener(
+    "click",
+    (event) => {
+      const target = event.target instanceof Element ? event.target : null;
+      if (!target) return;
+      const el = target.closest(interactive) ?? target;
+      if (labelClick.control === el && Date.now() - labelClick.at < 200) return;
+      if (el instanceof HTMLLabelElement) labelClick = { control: el.control, at: Date.now() };
+      win[binding]?.({ kind: "click", element: dom.describe(el) });
+    },
+    true,
+  );
+  document.addEventListener(
+    "input",
+    (event) => {
+      const el = event.target;
+      if (!(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement)) return;
+      if (el instanceof HTMLInputElement && (el.type === "radio" || el.type === "checkbox")) return;
+      win[binding]?.({ kind: "fill", element: dom.describe(el), value: el.value });
+    },
+    true,
+  );
+  document.addEventListener(
+    "keydown",
+    (event) => {
+      if (!["Enter", "Tab", "Escape"].includes(event.key)) return;
+      const active = document.activeElement;
+      const element = active && active !== document.body ? dom.describe(active) : null;
+      win[binding]?.({ kind: "press", key: event.key, element });
+    },
+    true,
+  );
+}
+
+/**
+ * Collects the actions the runner's clicks and typing actually caused, per step.
+ * Actions outside begin()/end() (page scripts, timers) are ignored.
+ */
+export class ActionRecorder {
+  private current: ReplayAction[] | null = null;
+  private readonly steps: ReplayStep[] = [];
+
+  static async attach(context: BrowserContext): Promise<ActionRecorder> {
+    const recorder = new ActionRecorder();
+    await context.exposeBinding(BINDING, (_source, action: ReplayAction) => recorder.push(action));
+    await context.addInitScript(recorderScript, BINDING);
+    return recorder;
+  }
+
+  begin(): void {
+    this.current = [];
+  }
+
+  /** Close the step's action window and keep what was recorded. */
+  end(step: Omit<ReplayStep, "actions">): ReplayStep {
+    const recorded = { ...step, actions: this.current ?? [] };
+    this.current = null;
+    this.steps.push(recorded);
+    return recorded;
+  }
+
+  toFile(meta: Omit<ReplayFile, "steps" | "recordedAt">): ReplayFile {
+    return { ...meta, recordedAt: new Date().toISOString(), steps: this.steps };
+  }
+
+  private push(action: ReplayAction): void {
+    if (!this.current) return;
+    const last = this.current[this.current.length - 1];
+    // One fill per field: keystrokes of the same input collapse into the final value
+    if (action.kind === "fill" && last?.kind === "fill" && last.element.selector === action.element.selector) {
+      this.current[this.current.length - 1] = action;
+      return;
+    }
+    this.current.push(action);
+  }
+}
+
+export async function writeReplayFile(funnelDir: string, file: ReplayFile): Promise<string> {
+  const path = `${funnelDir}/replay.json`;
+  await writeJsonFile(path, file);
+  return path;
+}
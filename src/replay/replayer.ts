@@ -0,0 +1,144 @@
+import { readFile } from "node:fs/promises";
+import type { Locator, Page } from "playwright";
+import type { AnswerStrategy } from "../navigator/answerStrategy";
+import { reactSafeType } from "../navigator/profileInputs";
+import { clickLocator } from "../navigator/stepHandler";
+import type { ReplayAction, ReplayElement, ReplayFile, ReplayStep } from "./recorder";
+
+/** Answers come from the recording; the strategy only names the run. */
+export const REPLAY_STRATEGY: AnswerStrategy = { name: "replay", choose: () => null };
+
+const FIND_TIMEOUT_MS = 5_000;
+
+export type ReplayStepResult = {
+  performed: boolean;
+  messages: string[];
+  /** Set when an expected element could not be found: the run diverged from the recording. */
+  divergence: string | null;
+};
+
+/**
+ * Walks the recorded steps that performed actions, in order. Steps where the recording did nothing are skipped.
+ */
+export class ReplayCursor {
+  private readonly queue: ReplayStep[];
+  private position = 0;
+
+  constructor(
+    readonly file: ReplayFile,
+    readonly source: string,
+  ) {
+    this.queue = file.steps.filter((step) => step.actions.length > 0);
+  }
+
+  next(): ReplayStep | null {
+    const step = this.queue[this.position] ?? null;
+    if (step) this.position += 1;
+    return step;
+  }
+
+  get replayed(): number {
+    return this.position;
+  }
+
+  get total(): number {
+    return this.queue.length;
+  }
+}
+
+/**
+ * Read and sanity-check a replay.json written by an earlier run.
+ */
+export async function loadReplayFile(path: string): Promise<ReplayFile> {
+  const text = await readFile(path, "utf8").catch(() => {
+    throw new Error(`Replay file ${path} not found.`);
+  });
+  let parsed: ReplayFile;
+  try {
+    parsed = JSON.parse(text) as ReplayFile;
+  } catch (error) {
+    throw new Error(`Replay file ${path} is not valid JSON (${error instanceof Error ? error.message : String(error)}).`);
+  }
+  if (typeof parsed?.url !== "string" || !Array.isArray(parsed.steps) || typeof parsed.device?.name !== "string") {
+    throw new Error(`Replay file ${path} is missing url, device or steps; record it with a normal run first.`);
+  }
+  return parsed;
+}
+
+function describeElement(element: ReplayElement): string {
+  const what = element.role ?? element.tag;
+  return element.text ? `${what} "${element.text}"` : `${what} ${element.selector}`;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * Find the recorded element: exact CSS path (if its text still matches), then role + accessible name, then text.
+ */
+async function findElement(page: Page, element: ReplayElement): Promise<{ locator: Locator; via: string } | null> {
+  const candidates: Array<{ locator: Locator; via: string; checkText: boolean }> = [
+    { locator: page.locator(element.selector), via: "selector", checkText: element.role !== "textbox" && element.text !== "" },
+  ];
+  if (element.role && element.text) {
+    const role = element.role as Parameters<Page["getByRole"]>[0];
+    candidates.push({ locator: page.getByRole(role, { name: element.text, exact: true }), via: "role", checkText: false });
+  }
+  if (element.text) {
+    candidates.push({ locator: page.getByText(element.text, { exact: true }), via: "text", checkText: false });
+  }
+
+  const deadline = Date.now() + FIND_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    for (const candidate of candidates) {
+      const locator = candidate.locator.first();
+      if (!(await locator.isVisible().catch(() => false))) continue;
+      if (candidate.checkText) {
+        const text = normalize(await locator.innerText().catch(() => ""));
+        if (!text.startsWith(element.text.slice(0, 40))) continue;
+      }
+      return { locator, via: candidate.via };
+    }
+    await page.waitForTimeout(250);
+  }
+  return null;
+}
+
+async function replayAction(page: Page, action: ReplayAction): Promise<{ message: string; divergence: string | null }> {
+  if (action.kind === "press") {
+    if (action.element) {
+      const found = await findElement(page, action.element);
+      await found?.locator.focus().catch(() => undefined);
+    }
+    await page.keyboard.press(action.key);
+    return { message: `Replayed ${action.key} press.`, divergence: null };
+  }
+
+  const found = await findElement(page, action.element);
+  if (!found) {
+    return { message: "", divergence: `expected ${describeElement(action.element)} not found (${action.element.selector})` };
+  }
+  if (action.kind === "fill") {
+    await reactSafeType(found.locator, page, action.value);
+    return { message: `Replayed fill of ${describeElement(action.element)} (by ${found.via}).`, divergence: null };
+  }
+  if (!(await clickLocator(found.locator))) {
+    return { message: "", divergence: `click on ${describeElement(action.element)} failed` };
+  }
+  return { message: `Replayed click on ${describeElement(action.element)} (by ${found.via}).`, divergence: null };
+}
+
+/**
+ * Perform one recorded step instead of handleStepAction. Stops at the first missing element.
+ */
+export async function replayStep(page: Page, recorded: ReplayStep): Promise<ReplayStepResult> {
+  const messages: string[] = [];
+  for (const action of recorded.actions) {
+    const result = await replayAction(page, action);
+    if (result.divergence) {
+      return { performed: messages.length > 0, messages, divergence: `recorded step ${recorded.step}: ${result.divergence}` };
+    }
+    messages.push(result.message);
+    await page.waitForTimeout(300);
+  }
+  return { performed: true, messages, divergence: null };
+}
@@ -0,0 +1,128 @@
+import { writeFile } from "node:fs/promises";
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { FunnelRunSummary, StepRecord } from "../runner/runFunnel";
+import { writeJsonFile } from "../utils/fileManager";
+
+export type FunnelGraphNode = {
+  id: string;
+  screenKey: string;
+  type: ScreenType;
+  question: string;
+  /** Every step that landed on this screen (more than one means the funnel looped back). */
+  steps: number[];
+  screenshots: string[];
+};
+
+export type FunnelGraphEdge = {
+  from: string;
+  to: string;
+  step: number;
+  label: string;
+  answer: string | null;
+  actions: string[];
+};
+
+export type FunnelGraph = {
+  url: string;
+  nodes: FunnelGraphNode[];
+  edges: FunnelGraphEdge[];
+};
+
+/**
+ * Short edge label: chosen option if any, else the last concrete action message.
+ */
+function edgeLabel(step: StepRecord): string {
+  if (step.answer) return `answer: ${step.answer}`;
+  const concrete = step.actions.filter((message) => /^(Clicked|Filled|Pressed|Submitted)/.test(message));
+  return concrete[concrete.length - 1] ?? step.actions[step.actions.length - 1] ?? "(no action)";
+}
+
+/**
+ * One node per distinct screen (by screenKey), one edge per transition between consecutive steps.
+ */
+export function buildFunnelGraph(summary: FunnelRunSummary): FunnelGraph {
+  const nodes = new Map<string, FunnelGraphNode>();
+  const edges: FunnelGraphEdge[] = [];
+
+  for (const step of summary.steps) {
+    const id = `s_${step.screenKey}`;
+    const existing = nodes.get(id);
+    if (existing) {
+      existing.steps.push(step.step);
+      existing.screenshots.push(step.screenshot);
+      continue;
+    }
+    nodes.set(id, {
+      id,
+      screenKey: step.screenKey,
+      type: step.type,
+      question: step.headline,
+      steps: [step.step],
+      screenshots: [step.screenshot],
+    });
+  }
+
+  for (let index = 0; index < summary.steps.length - 1; index += 1) {
+    const current = summary.steps[index];
+    const next = summary.steps[index + 1];
+    edges.push({
+      from: `s_${current.screenKey}`,
+      to: `s_${next.screenKey}`,
+      step: current.step,
+      label: edgeLabel(current),
+      answer: current.answer ?? null,
+      actions: current.actions,
+    });
+  }
+
+  return { url: summary.url, nodes: Array.from(nodes.values()), edges };
+}
+
+function nodeTitle(node: FunnelGraphNode): string {
+  const steps = node.steps.map((step) => String(step).padStart(2, "0")).join(",");
+  const question = node.question.length > 60 ? `${node.question.slice(0, 57)}...` : node.question;
+  return `${steps} ${node.type}${question ? `\n${question}` : ""}`;
+}
+
+function shorten(text: string, max = 50): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/\n/g, "<br/>");
+}
+
+export function toMermaid(graph: FunnelGraph): string {
+  const lines = ["flowchart TD"];
+  for (const node of graph.nodes) {
+    const label = `"${escapeMermaid(nodeTitle(node))}"`;
+    lines.push(node.type === "paywall" ? `  ${node.id}[[${label}]]` : `  ${node.id}[${label}]`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} -->|"${escapeMermaid(shorten(edge.label))}"| ${edge.to}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+export function toDot(graph: FunnelGraph): string {
+  const lines = ["digraph funnel {", "  rankdir=TB;", '  node [shape=box, fontname="Helvetica"];'];
+  for (const node of graph.nodes) {
+    const style = node.type === "paywall" ? ", style=filled, fillcolor=gold" : "";
+    lines.push(`  ${node.id} [label="${escapeDot(nodeTitle(node))}"${style}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} -> ${edge.to} [label="${escapeDot(shorten(edge.label))}"];`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+export async function writeFunnelGraph(funnelDir: string, graph: FunnelGraph): Promise<void> {
+  await writeJsonFile(`${funnelDir}/graph.json`, graph);
+  await writeFile(`${funnelDir}/graph.mmd`, toMermaid(graph), "utf8");
+  await writeFile(`${funnelDir}/graph.dot`, toDot(graph), "utf8");
+}
@@ -0,0 +1,78 @@
+import { writeFile } from "node:fs/promises";
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { FunnelRunSummary } from "../runner/runFunnel";
+import type { ScreenScript } from "../script/extractScript";
+import { writeJsonFile } from "../utils/fileManager";
+
+export type FunnelScriptStep = ScreenScript & {
+  step: number;
+  type: ScreenType;
+  url: string;
+  screenshot: string;
+  /** Option the runner picked, if any. */
+  answer: string | null;
+};
+
+export type FunnelScript = {
+  url: string;
+  persona: string;
+  answerStrategy: string;
+  steps: FunnelScriptStep[];
+};
+
+/**
+ * Ordered script of the run; steps recorded before script extraction existed are skipped.
+ */
+export function buildFunnelScript(summary: FunnelRunSummary): FunnelScript {
+  return {
+    url: summary.url,
+    persona: summary.persona,
+    answerStrategy: summary.answerStrategy,
+    steps: summary.steps.flatMap((step) =>
+      step.script
+        ? [
+            {
+              step: step.step,
+              type: step.type,
+              url: step.url,
+              screenshot: step.screenshot,
+              answer: step.answer ?? null,
+              ...step.script,
+            },
+          ]
+        : [],
+    ),
+  };
+}
+
+/**
+ * Readable transcript: one section per screen, options as a list with the picked one marked.
+ */
+export function toMarkdown(script: FunnelScript): string {
+  const lines = [`# ${script.url}`, "", `Persona: ${script.persona} · answers: ${script.answerStrategy}`];
+  for (const step of script.steps) {
+    lines.push("", `## ${String(step.step).padStart(2, "0")} · ${step.type}${step.headline ? ` — ${step.headline}` : ""}`, "");
+    lines.push(...step.copy.map((line) => `> ${line}`));
+    if (step.copy.length > 0) lines.push("");
+    if (step.options.length > 0) {
+      lines.push(step.optionKind === "choice" ? "Options (radio/checkbox):" : "Options:");
+      const picked = step.answer?.toLowerCase();
+      for (const option of step.options) {
+        const chosen = picked && option.toLowerCase().startsWith(picked.slice(0, 40));
+        lines.push(`- ${chosen ? `**${option}** ← picked` : option}`);
+      }
+      lines.push("");
+    }
+    for (const input of step.inputs) {
+      lines.push(`Input (${input.type}): ${input.label || "(no label)"}${input.placeholder && input.placeholder !== input.label ? ` — placeholder "${input.placeholder}"` : ""}`);
+    }
+    if (step.ctas.length > 0) lines.push(`CTA: ${step.ctas.map((cta) => `[${cta}]`).join(" ")}`);
+    lines.push(`Screenshot: ${step.screenshot}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export async function writeFunnelScript(funnelDir: string, script: FunnelScript): Promise<void> {
+  await writeJsonFile(`${funnelDir}/script.json`, script);
+  await writeFile(`${funnelDir}/script.md`, toMarkdown(script), "utf8");
+}
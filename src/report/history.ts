@@ -0,0 +1,50 @@
+import { cp, readdir, stat } from "node:fs/promises";
+import { HISTORY_DIR } from "../config";
+import { ensureDir } from "../utils/fileManager";
+
+async function isDirectory(path: string): Promise<boolean> {
+  return stat(path).then(
+    (info) => info.isDirectory(),
+    () => false,
+  );
+}
+
+function timestampName(date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, "-");
+}
+
+/** Snapshot names, oldest first (default names are timestamps, so they sort chronologically). */
+export async function listSnapshots(): Promise<string[]> {
+  const entries = await readdir(HISTORY_DIR, { withFileTypes: true }).catch(() => []);
+  return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+}
+
+/**
+ * Copy a results folder into HISTORY_DIR/<name>. _classified/ is left out: it only duplicates step PNGs.
+ */
+export async function saveSnapshot(resultsRoot: string, name = timestampName()): Promise<string> {
+  const target = `${HISTORY_DIR}/${name}`;
+  if (await isDirectory(target)) throw new Error(`Snapshot ${target} already exists.`);
+  await ensureDir(HISTORY_DIR);
+  await cp(resultsRoot, target, {
+    recursive: true,
+    filter: (source) => !source.split("/").includes("_classified"),
+  });
+  return target;
+}
+
+/**
+ * diff argument → folder: an existing path, a snapshot name, or "latest" / "previous".
+ */
+export async function resolveRunsDir(ref: string): Promise<string> {
+  const trimmed = ref.replace(/\/+$/, "");
+  if (trimmed === "latest" || trimmed === "previous") {
+    const snapshots = await listSnapshots();
+    const name = snapshots[snapshots.length - (trimmed === "latest" ? 1 : 2)];
+    if (!name) throw new Error(`No "${trimmed}" snapshot: ${HISTORY_DIR}/ has ${snapshots.length} snapshot(s).`);
+    return `${HISTORY_DIR}/${name}`;
+  }
+  if (await isDirectory(trimmed)) return trimmed;
+  if (await isDirectory(`${HISTORY_DIR}/${trimmed}`)) return `${HISTORY_DIR}/${trimmed}`;
+  throw new Error(`"${ref}" is neither a folder nor a snapshot in ${HISTORY_DIR}/.`);
+}
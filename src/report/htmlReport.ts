@@ -0,0 +1,294 @@
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { relative } from "node:path";
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { FunnelRunSummary, StepRecord } from "../runner/runFunnel";
+import { describeDevice } from "../runner/device";
+import type { RunEvent, StopReason } from "../utils/logger";
+
+const SCREEN_TYPES: ScreenType[] = ["question", "info", "input", "email", "paywall", "other"];
+
+const TYPE_COLORS: Record<ScreenType, string> = {
+  question: "#2563eb",
+  info: "#0891b2",
+  input: "#7c3aed",
+  email: "#db2777",
+  paywall: "#d97706",
+  other: "#6b7280",
+};
+
+export type HtmlReportOptions = {
+  /** Inline screenshots as data: URIs (single portable file). Off → relative links into the results folder. */
+  embedImages: boolean;
+};
+
+/** Log lines written by runFunnel when it stops, newest match wins. */
+/** Fallback for results without events.jsonl. */
+const STOP_PATTERNS: Array<[RegExp, string]> = [
+  [/^Paywall detected\./m, "Paywall reached"],
+  [/No action performed 2 times in a row/, "No action possible twice in a row"],
+  [/DOM\+URL hash repeated \d+ times|Same screen \(similarity ≥ [\d.]+\) repeated \d+ times/, "Loop detected (same screen repeated)"],
+  [/Page was closed externally|Page closed during/, "Page closed"],
+  [/page\.goto retry also failed/, "Could not open the URL"],
+  [/Fatal error: (.*)/, "Fatal error: $1"],
+];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STOP_LABELS: Record<StopReason, string> = {
+  paywall: "Paywall reached",
+  no_action: "No action possible twice in a row",
+  loop: "Loop detected (same screen repeated)",
+  page_closed: "Page closed",
+  navigation_failed: "Could not open the URL",
+  step_limit: "Step limit reached",
+  diverged: "Replay diverged from the recording",
+  replay_end: "Replay finished",
+  fatal: "Fatal error",
+};
+
+/** Last "stop" event of events.jsonl, if the run has one. */
+async function readStopEvent(funnelDir: string): Promise<Extract<RunEvent, { type: "stop" }> | null> {
+  const text = await readFile(`${funnelDir}/events.jsonl`, "utf8").catch(() => "");
+  const events = text
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as RunEvent);
+  return events.reverse().find((event): event is Extract<RunEvent, { type: "stop" }> => event.type === "stop") ?? null;
+}
+
+/**
+ * Why the run ended: the stop event of events.jsonl, or log.txt for runs recorded before it existed.
+ */
+export async function readStopReason(summary: FunnelRunSummary): Promise<string> {
+  const stop = await readStopEvent(summary.funnelDir);
+  if (stop) return stop.reason === "fatal" ? `${STOP_LABELS.fatal}: ${stop.detail}` : STOP_LABELS[stop.reason];
+
+  const log = await readFile(`${summary.funnelDir}/log.txt`, "utf8").catch(() => "");
+  let best: { index: number; reason: string } | null = null;
+  for (const [pattern, label] of STOP_PATTERNS) {
+    for (const match of log.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+      const index = match.index ?? 0;
+      if (!best || index >= best.index) best = { index, reason: match[0].replace(pattern, label) };
+    }
+  }
+  if (best) return best.reason;
+  if (summary.reachedPaywall) return "Paywall reached";
+  return summary.totalSteps > 0 ? "Step limit reached" : "No screens captured";
+}
+
+async function countClassified(root: string): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const type of SCREEN_TYPES) {
+    const files = await readdir(`${root}/_classified/${type}`).catch(() => [] as string[]);
+    counts[type] = files.filter((file) => file.endsWith(".png")).length;
+  }
+  return counts;
+}
+
+async function imageSource(path: string, root: string, options: HtmlReportOptions): Promise<string | null> {
+  if (!options.embedImages) return encodeURI(relative(root, path));
+  const data = await readFile(path).catch(() => null);
+  return data ? `data:image/png;base64,${data.toString("base64")}` : null;
+}
+
+function badge(type: ScreenType): string {
+  return `<span class="badge" style="background:${TYPE_COLORS[type] ?? TYPE_COLORS.other}">${type}</span>`;
+}
+
+async function renderStep(step: StepRecord, summary: FunnelRunSummary, root: string, options: HtmlReportOptions) {
+  const src = await imageSource(`${summary.funnelDir}/${step.screenshot}`, root, options);
+  const image = src
+    ? `<img loading="lazy" src="${src}" alt="Step ${step.step}">`
+    : `<div class="missing">no screenshot</div>`;
+  const answer = step.answer ? `<div class="answer">→ ${escapeHtml(step.answer)}</div>` : "";
+  const runnerUp = step.classifier?.runnerUp;
+  const confidence = step.classifier
+    ? ` <span class="confidence">(${step.classifier.confidence}${runnerUp ? `, runner-up ${runnerUp.type}` : ""})</span>`
+    : "";
+  return `<figure class="step" data-type="${step.type}">
+  ${image}
+  <figcaption>
+    <div><b>${String(step.step).padStart(2, "0")}</b> ${badge(step.type)}</div>
+    ${step.headline ? `<div class="headline">${escapeHtml(step.headline)}</div>` : ""}
+    <div class="reason">${escapeHtml(step.reason)}${confidence}</div>
+    ${answer}
+    ${step.tracking?.length ? `<div class="tracking">${step.tracking.map(escapeHtml).join(" ")}</div>` : ""}
+  </figcaption>
+</figure>`;
+}
+
+function renderOffers(summary: FunnelRunSummary): string {
+  const offers = summary.paywallOffers ?? [];
+  if (offers.length === 0) {
+    return summary.detectedPrices.length > 0
+      ? `<p><b>Prices:</b> ${summary.detectedPrices.map(escapeHtml).join(", ")}</p>`
+      : "";
+  }
+  const rows = offers.map((offer) => {
+    const period = offer.billingPeriod ? `${offer.billingPeriod.count} ${offer.billingPeriod.unit}` : "—";
+    const normalized = offer.normalized?.price != null ? `≈${offer.normalized.price} ${offer.normalized.currency}` : "";
+    return `<tr>
+      <td>${escapeHtml(offer.planName ?? "—")}${offer.mostPopular ? " ★" : ""}${offer.preselected ? " ✓" : ""}</td>
+      <td>${offer.price ?? "?"} ${escapeHtml(offer.currency ?? "")} ${normalized}</td>
+      <td>${offer.originalPrice ?? ""}</td>
+      <td>${period}</td>
+      <td>${offer.trialDays ?? ""}</td>
+      <td>${offer.perDayPrice ?? ""}</td>
+    </tr>`;
+  });
+  return `<table class="offers">
+    <tr><th>Plan</th><th>Price</th><th>Was</th><th>Period</th><th>Trial days</th><th>Per day</th></tr>
+    ${rows.join("\n")}
+  </table>`;
+}
+
+/** Links to the kept trace/HAR/video (always relative: they are too big to embed). */
+function renderArtifacts(summary: FunnelRunSummary, root: string): string {
+  const links = (summary.artifacts ?? []).map((file) => {
+    const href = encodeURI(relative(root, `${summary.funnelDir}/${file}`));
+    return `<a href="${escapeHtml(href)}">${escapeHtml(file)}</a>`;
+  });
+  return links.length > 0 ? `<span><b>Recordings:</b> ${links.join(" ")}</span>` : "";
+}
+
+async function renderCard(summary: FunnelRunSummary, root: string, options: HtmlReportOptions): Promise<string> {
+  const stopReason = await readStopReason(summary);
+  const steps = await Promise.all(summary.steps.map((step) => renderStep(step, summary, root, options)));
+  const types = Array.from(new Set(summary.steps.map((step) => step.type)));
+  const meta = [
+    summary.persona ? `persona: ${summary.persona}` : "",
+    summary.device ? `device: ${describeDevice(summary.device)}` : "",
+    summary.emulation ? `locale: ${summary.emulation.locale}` : "",
+    summary.answerStrategy ? `answers: ${summary.answerStrategy}` : "",
+    `${summary.executionTimeSeconds}s`,
+  ].filter(Boolean);
+  return `<section class="card" data-paywall="${summary.reachedPaywall}" data-types="${types.join(" ")}">
+  <header>
+    <h2><a href="${escapeHtml(summary.url)}">${escapeHtml(summary.url)}</a></h2>
+    <div class="meta">${escapeHtml(relative(root, summary.funnelDir) || ".")} · ${meta.map(escapeHtml).join(" · ")}</div>
+    <div class="status">
+      <span class="pill ${summary.reachedPaywall ? "ok" : "fail"}">${summary.reachedPaywall ? "paywall" : "no paywall"}</span>
+      <span>${summary.totalSteps} steps</span>
+      <span><b>Stop:</b> ${escapeHtml(stopReason)}</span>
+      ${renderArtifacts(summary, root)}
+    </div>
+  </header>
+  ${renderOffers(summary)}
+  <div class="timeline">${steps.join("\n")}</div>
+</section>`;
+}
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; background: #f3f4f6; color: #111827; }
+.top { position: sticky; top: 0; z-index: 1; background: #fff; border-bottom: 1px solid #e5e7eb; padding: 12px 20px; }
+.top h1 { font-size: 18px; margin: 0 0 8px; }
+.filters { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; font-size: 13px; }
+.filters label { cursor: pointer; }
+main { padding: 16px 20px; }
+.card { background: #fff; border-radius: 10px; padding: 14px 16px; margin-bottom: 16px; box-shadow: 0 1px 2px rgba(0,0,0,.06); }
+.card h2 { font-size: 15px; margin: 0 0 4px; word-break: break-all; }
+.meta { color: #6b7280; font-size: 12px; }
+.status { display: flex; gap: 14px; font-size: 13px; margin: 8px 0; }
+.pill { border-radius: 999px; padding: 1px 8px; color: #fff; font-size: 12px; }
+.pill.ok { background: #16a34a; } .pill.fail { background: #dc2626; }
+.badge { border-radius: 4px; padding: 0 6px; color: #fff; font-size: 11px; }
+.timeline { display: flex; gap: 10px; overflow-x: auto; padding-bottom: 8px; }
+.step { margin: 0; flex: 0 0 170px; font-size: 11px; }
+.step img { width: 170px; height: 300px; object-fit: cover; object-position: top; border: 1px solid #e5e7eb; border-radius: 6px; cursor: zoom-in; }
+.step .missing { width: 170px; height: 300px; display: grid; place-items: center; background: #f9fafb; color: #9ca3af; }
+.headline { font-weight: 600; margin-top: 2px; }
+.reason { color: #6b7280; }
+.confidence { white-space: nowrap; }
+.answer { color: #2563eb; }
+.tracking { color: #6b7280; font-family: ui-monospace, Menlo, monospace; word-break: break-all; }
+.offers { border-collapse: collapse; font-size: 12px; margin: 6px 0 10px; }
+.offers td, .offers th { border: 1px solid #e5e7eb; padding: 3px 8px; text-align: left; }
+.hidden { display: none !important; }
+#zoom { position: fixed; inset: 0; background: rgba(0,0,0,.8); display: none; overflow: auto; z-index: 2; text-align: center; cursor: zoom-out; }
+#zoom img { max-width: 95vw; margin: 20px auto; }
+`;
+
+const SCRIPT = `
+const typeBoxes = Array.from(document.querySelectorAll("input[data-type]"));
+const paywallSelect = document.getElementById("paywall");
+function applyFilters() {
+  const types = typeBoxes.filter((box) => box.checked).map((box) => box.dataset.type);
+  document.querySelectorAll(".step").forEach((step) => step.classList.toggle("hidden", !types.includes(step.dataset.type)));
+  document.querySelectorAll(".card").forEach((card) => {
+    const paywall = paywallSelect.value === "all" || card.dataset.paywall === paywallSelect.value;
+    const hasType = card.dataset.types.split(" ").some((type) => types.includes(type));
+    card.classList.toggle("hidden", !paywall || !hasType);
+  });
+}
+typeBoxes.forEach((box) => box.addEventListener("change", applyFilters));
+paywallSelect.addEventListener("change", applyFilters);
+const zoom = document.getElementById("zoom");
+document.querySelectorAll(".step img").forEach((img) =>
+  img.addEventListener("click", () => { zoom.querySelector("img").src = img.src; zoom.style.display = "block"; }),
+);
+zoom.addEventListener("click", () => { zoom.style.display = "none"; });
+`;
+
+/**
+ * One static page for a results folder: a card per run with its screenshot timeline.
+ */
+export async function buildHtmlReport(
+  root: string,
+  summaries: FunnelRunSummary[],
+  options: HtmlReportOptions,
+): Promise<string> {
+  const cards: string[] = [];
+  // Sequential on purpose: with embedded images every card holds its screenshots in memory.
+  for (const summary of summaries) cards.push(await renderCard(summary, root, options));
+  const classified = await countClassified(root);
+  const reached = summaries.filter((summary) => summary.reachedPaywall).length;
+  const typeFilters = SCREEN_TYPES.map(
+    (type) =>
+      `<label><input type="checkbox" data-type="${type}" checked> ${badge(type)} <small>${classified[type]}</small></label>`,
+  ).join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Quiz Funnel Runner report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<div class="top">
+  <h1>Quiz Funnel Runner · ${summaries.length} run(s) · ${reached} reached paywall · ${new Date().toISOString().slice(0, 16).replace("T", " ")}</h1>
+  <div class="filters">
+    ${typeFilters}
+    <select id="paywall">
+      <option value="all">all runs</option>
+      <option value="true">paywall reached</option>
+      <option value="false">paywall not reached</option>
+    </select>
+  </div>
+</div>
+<main>
+${cards.join("\n")}
+</main>
+<div id="zoom"><img alt=""></div>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export async function writeHtmlReport(
+  root: string,
+  summaries: FunnelRunSummary[],
+  options: HtmlReportOptions,
+): Promise<string> {
+  const path = `${root}/report.html`;
+  await writeFile(path, await buildHtmlReport(root, summaries, options), "utf8");
+  return path;
+}
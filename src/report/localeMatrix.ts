@@ -0,0 +1,99 @@
+import { writeFile } from "node:fs/promises";
+import type { FunnelRunSummary } from "../runner/runFunnel";
+import { describeDevice } from "../runner/device";
+import { resultsDir, slugFromUrl, writeJsonFile } from "../utils/fileManager";
+
+export type LocaleComparisonRow = {
+  locale: string;
+  timezoneId: string | null;
+  persona: string;
+  device: string;
+  funnelDir: string;
+  totalSteps: number;
+  reachedPaywall: boolean;
+  detectedPrices: string[];
+  offers: Array<{
+    planName: string | null;
+    price: number | null;
+    currency: string | null;
+    normalizedPrice: number | null;
+    normalizedCurrency: string | null;
+  }>;
+};
+
+function toRow(summary: FunnelRunSummary): LocaleComparisonRow {
+  return {
+    locale: summary.emulation?.locale ?? "default",
+    timezoneId: summary.emulation?.timezoneId ?? null,
+    persona: summary.persona,
+    device: describeDevice(summary.device),
+    funnelDir: summary.funnelDir,
+    totalSteps: summary.totalSteps,
+    reachedPaywall: summary.reachedPaywall,
+    detectedPrices: summary.detectedPrices,
+    offers: summary.paywallOffers.map((offer) => ({
+      planName: offer.planName,
+      price: offer.price,
+      currency: offer.currency,
+      normalizedPrice: offer.normalized?.price ?? null,
+      normalizedCurrency: offer.normalized?.currency ?? null,
+    })),
+  };
+}
+
+function formatOffers(row: LocaleComparisonRow): string {
+  if (row.offers.length === 0) return row.detectedPrices.join(", ") || "—";
+  return row.offers
+    .map((offer) => {
+      const local = offer.price !== null ? `${offer.price} ${offer.currency ?? ""}`.trim() : "?";
+      const base =
+        offer.normalizedPrice !== null && offer.normalizedCurrency !== offer.currency
+          ? ` (≈${offer.normalizedPrice} ${offer.normalizedCurrency})`
+          : "";
+      return `${offer.planName ?? "plan"}: ${local}${base}`;
+    })
+    .join("<br>");
+}
+
+/** Rows that differ only by locale: one table per persona × device, so other matrices don't mix in. */
+function groupLocaleRows(rows: LocaleComparisonRow[]): Array<{ persona: string; device: string; rows: LocaleComparisonRow[] }> {
+  const groups = new Map<string, { persona: string; device: string; rows: LocaleComparisonRow[] }>();
+  for (const row of rows) {
+    const key = `${row.persona}\u0000${row.device}`;
+    const group = groups.get(key) ?? { persona: row.persona, device: row.device, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+export function toLocaleMarkdown(url: string, rows: LocaleComparisonRow[]): string {
+  const groups = groupLocaleRows(rows);
+  const lines = [`# Locale matrix: ${url}`];
+  for (const group of groups) {
+    lines.push(
+      "",
+      ...(groups.length > 1 ? [`## Persona: ${group.persona} · Device: ${group.device}`, ""] : []),
+      "| Locale | Timezone | Persona | Device | Steps | Paywall | Prices / offers |",
+      "| --- | --- | --- | --- | ---: | --- | --- |",
+      ...group.rows.map(
+        (row) =>
+          `| ${row.locale} | ${row.timezoneId ?? "—"} | ${row.persona} | ${row.device} | ${row.totalSteps} | ${
+            row.reachedPaywall ? "yes" : "no"
+          } | ${formatOffers(row)} |`,
+      ),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Side-by-side comparison of one URL run under several locales: results/<slug>/locale-matrix.{json,md}.
+ */
+export async function writeLocaleComparison(url: string, summaries: FunnelRunSummary[]): Promise<string> {
+  const rows = summaries.map(toRow);
+  const baseDir = `${resultsDir()}/${slugFromUrl(url)}`;
+  await writeJsonFile(`${baseDir}/locale-matrix.json`, { url, rows });
+  await writeFile(`${baseDir}/locale-matrix.md`, toLocaleMarkdown(url, rows), "utf8");
+  return `${baseDir}/locale-matrix.md`;
+}
@@ -0,0 +1,162 @@
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { FunnelRunSummary } from "../runner/runFunnel";
+
+export type FunnelDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export type FunnelDiffDetails = {
+  steps?: { before: number; after: number };
+  types?: { before: ScreenType[]; after: ScreenType[] };
+  /** Question headlines present in only one of the runs (order-aware, see sequenceDiff). */
+  questions?: { added: string[]; removed: string[] };
+  paywall?: { before: boolean; after: boolean };
+  prices?: { before: string[]; after: string[] };
+};
+
+export type FunnelDiff = {
+  /** funnelDir relative to its results root, e.g. "coursiv-io-dynamic" or "coursiv-io-dynamic/locale-de-de". */
+  key: string;
+  url: string;
+  status: FunnelDiffStatus;
+  /** Human-readable lines, one per changed aspect. */
+  changes: string[];
+  details: FunnelDiffDetails;
+};
+
+export type RunDiff = {
+  before: string;
+  after: string;
+  counts: Record<FunnelDiffStatus, number>;
+  funnels: FunnelDiff[];
+};
+
+/** funnelDir relative to the results root it was loaded from: the key runs of two folders are matched by. */
+export function relativeKey(summary: FunnelRunSummary, root: string): string {
+  return summary.funnelDir.startsWith(`${root}/`) ? summary.funnelDir.slice(root.length + 1) : summary.funnelDir;
+}
+
+/**
+ * Items only in `before` / only in `after`, via the longest common subsequence,
+ * so one inserted question doesn't mark every following one as changed.
+ */
+export function sequenceDiff<T>(before: T[], after: T[]): { added: T[]; removed: T[] } {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const added: T[] = [];
+  const removed: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push(before[i]);
+      i += 1;
+    } else {
+      added.push(after[j]);
+      j += 1;
+    }
+  }
+  removed.push(...before.slice(i));
+  added.push(...after.slice(j));
+  return { added, removed };
+}
+
+function questionTexts(summary: FunnelRunSummary): string[] {
+  return summary.steps
+    .filter((step) => step.type === "question")
+    .map((step) => (step.headline || step.excerpt || "").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+/** Offers when the paywall was parsed into plans, else the raw price tokens. */
+function priceList(summary: FunnelRunSummary): string[] {
+  const offers = summary.paywallOffers ?? [];
+  if (offers.length > 0) {
+    return offers.map((offer) => `${offer.planName ?? "plan"}: ${offer.price ?? "?"} ${offer.currency ?? ""}`.trim());
+  }
+  return summary.detectedPrices;
+}
+
+function compareSummaries(before: FunnelRunSummary, after: FunnelRunSummary): Pick<FunnelDiff, "changes" | "details"> {
+  const changes: string[] = [];
+  const details: FunnelDiffDetails = {};
+
+  if (before.totalSteps !== after.totalSteps) {
+    details.steps = { before: before.totalSteps, after: after.totalSteps };
+    changes.push(`steps: ${before.totalSteps} → ${after.totalSteps}`);
+  }
+
+  const typesBefore = before.steps.map((step) => step.type);
+  const typesAfter = after.steps.map((step) => step.type);
+  if (typesBefore.join(",") !== typesAfter.join(",")) {
+    details.types = { before: typesBefore, after: typesAfter };
+    changes.push(`screen types:\n      before: ${typesBefore.join(" ")}\n      after:  ${typesAfter.join(" ")}`);
+  }
+
+  const questions = sequenceDiff(questionTexts(before), questionTexts(after));
+  if (questions.added.length > 0 || questions.removed.length > 0) {
+    details.questions = questions;
+    changes.push(
+      ...questions.removed.map((text) => `question removed: "${text}"`),
+      ...questions.added.map((text) => `question added: "${text}"`),
+    );
+  }
+
+  if (before.reachedPaywall !== after.reachedPaywall) {
+    details.paywall = { before: before.reachedPaywall, after: after.reachedPaywall };
+    const label = (reached: boolean) => (reached ? "reached" : "not reached");
+    changes.push(`paywall: ${label(before.reachedPaywall)} → ${label(after.reachedPaywall)}`);
+  }
+
+  const pricesBefore = priceList(before);
+  const pricesAfter = priceList(after);
+  if (pricesBefore.join("|") !== pricesAfter.join("|")) {
+    details.prices = { before: pricesBefore, after: pricesAfter };
+    changes.push(`prices: ${pricesBefore.join(", ") || "—"} → ${pricesAfter.join(", ") || "—"}`);
+  }
+
+  return { changes, details };
+}
+
+/**
+ * Match runs of two results folders by their relative funnel dir and list what changed.
+ */
+export function diffRunSummaries(
+  before: FunnelRunSummary[],
+  beforeRoot: string,
+  after: FunnelRunSummary[],
+  afterRoot: string,
+): RunDiff {
+  const beforeByKey = new Map(before.map((summary) => [relativeKey(summary, beforeRoot), summary]));
+  const afterByKey = new Map(after.map((summary) => [relativeKey(summary, afterRoot), summary]));
+  const keys = Array.from(new Set([...beforeByKey.keys(), ...afterByKey.keys()])).sort();
+
+  const funnels = keys.map((key): FunnelDiff => {
+    const old = beforeByKey.get(key);
+    const current = afterByKey.get(key);
+    if (!old) return { key, url: current!.url, status: "added", changes: [], details: {} };
+    if (!current) return { key, url: old.url, status: "removed", changes: [], details: {} };
+    const { changes, details } = compareSummaries(old, current);
+    return { key, url: current.url, status: changes.length > 0 ? "changed" : "unchanged", changes, details };
+  });
+
+  const counts: Record<FunnelDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const funnel of funnels) counts[funnel.status] += 1;
+  return { before: beforeRoot, after: afterRoot, counts, funnels };
+}
+
+export function formatRunDiff(diff: RunDiff): string {
+  const marks: Record<FunnelDiffStatus, string> = { added: "+", removed: "-", changed: "~", unchanged: "=" };
+  const lines = [`Diff ${diff.before} → ${diff.after}`, ""];
+  for (const funnel of diff.funnels) {
+    lines.push(`${marks[funnel.status]} ${funnel.key} (${funnel.status})`, ...funnel.changes.map((change) => `    ${change}`));
+  }
+  const { changed, added, removed, unchanged } = diff.counts;
+  lines.push("", `${changed} changed, ${added} added, ${removed} removed, ${unchanged} unchanged.`);
+  return lines.join("\n");
+}
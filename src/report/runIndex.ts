@@ -0,0 +1,102 @@
+import { readdir, readFile } from "node:fs/promises";
+import type { FunnelRunSummary } from "../runner/runFunnel";
+import { describeDevice, type DeviceSettings } from "../runner/device";
+import { ensureDir, writeJsonFile } from "../utils/fileManager";
+
+export function aggregate(summaries: FunnelRunSummary[]) {
+  const totalFunnels = summaries.length;
+  const funnelsReachedPaywall = summaries.filter((item) => item.reachedPaywall).length;
+  const totalSteps = summaries.reduce((acc, item) => acc + item.totalSteps, 0);
+  const averageSteps = totalFunnels > 0 ? Number((totalSteps / totalFunnels).toFixed(1)) : 0;
+  return { totalFunnels, funnelsReachedPaywall, averageSteps };
+}
+
+function deviceLabel(device: DeviceSettings | undefined): string | null {
+  // Summaries written before device support have no device field.
+  return device ? describeDevice(device) : null;
+}
+
+/**
+ * Root <resultsDir>/summary.json: totals plus one line per run. `devices` adds per-device totals (device matrix).
+ */
+export async function writeRunIndex(
+  resultsRoot: string,
+  summaries: FunnelRunSummary[],
+  devices: DeviceSettings[] = [],
+): Promise<string> {
+  const totals = aggregate(summaries);
+  await ensureDir(resultsRoot);
+  const path = `${resultsRoot}/summary.json`;
+  await writeJsonFile(path, {
+    ...totals,
+    totalPaywallsCollected: totals.funnelsReachedPaywall,
+    devices:
+      devices.length > 1
+        ? Object.fromEntries(
+            devices.map((device) => {
+              const deviceSummaries = summaries.filter(
+                (item) => item.device?.name === device.name && item.device?.engine === device.engine,
+              );
+              return [
+                describeDevice(device),
+                {
+                  ...aggregate(deviceSummaries),
+                  funnels: deviceSummaries.map((item) => ({
+                    url: item.url,
+                    funnelDir: item.funnelDir,
+                    totalSteps: item.totalSteps,
+                    reachedPaywall: item.reachedPaywall,
+                    detectedPrices: item.detectedPrices,
+                  })),
+                },
+              ];
+            }),
+          )
+        : undefined,
+    runs: summaries.map((item) => {
+      const lastStep = item.steps[item.steps.length - 1];
+      return {
+        url: item.url,
+        persona: item.persona ?? null,
+        locale: item.emulation?.locale ?? null,
+        device: deviceLabel(item.device),
+        funnelDir: item.funnelDir,
+        reachedPaywall: item.reachedPaywall,
+        paywallScreenshot: item.reachedPaywall && lastStep ? `${item.funnelDir}/${lastStep.screenshot}` : null,
+        detectedPrices: item.detectedPrices,
+      };
+    }),
+  });
+  return path;
+}
+
+function isRunSummary(value: unknown): value is FunnelRunSummary {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Partial<FunnelRunSummary>;
+  return typeof candidate.url === "string" && typeof candidate.funnelDir === "string" && Array.isArray(candidate.steps);
+}
+
+/**
+ * Every per-run summary.json below `resultsRoot` (funnel dirs and their variants), sorted by funnelDir.
+ * The root summary.json and _classified/ are skipped. funnelDir is rewritten to where the file
+ * actually is, so copied or renamed results folders still resolve their screenshots.
+ */
+export async function loadRunSummaries(resultsRoot: string): Promise<FunnelRunSummary[]> {
+  const summaries: FunnelRunSummary[] = [];
+
+  async function walk(dir: string): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const path = `${dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        if (entry.name !== "_classified") await walk(path);
+      } else if (entry.name === "summary.json" && dir !== resultsRoot) {
+        const parsed: unknown = JSON.parse(await readFile(path, "utf8"));
+        if (isRunSummary(parsed)) summaries.push({ ...parsed, funnelDir: dir });
+      }
+    }
+  }
+
+  await walk(resultsRoot);
+  return summaries.sort((a, b) => a.funnelDir.localeCompare(b.funnelDir));
+}
@@ -0,0 +1,316 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import pixelmatch from "pixelmatch";
+import { PNG } from "pngjs";
+import { parse as parseYaml } from "yaml";
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { FunnelRunSummary, StepRecord } from "../runner/runFunnel";
+import { ensureDir, writeJsonFile } from "../utils/fileManager";
+import { relativeKey } from "./runDiff";
+
+/** Region ignored by the comparison, in screenshot pixels (device pixels, not CSS pixels). */
+export type MaskRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Only for runs whose relative funnel dir starts with this, e.g. "coursiv-io-dynamic". */
+  funnel?: string;
+};
+
+export type VisualDiffOptions = {
+  /** pixelmatch per-pixel colour threshold, 0..1. */
+  threshold: number;
+  /** Share of differing (unmasked) pixels above which a step counts as changed. */
+  maxDiffRatio: number;
+  masks: MaskRect[];
+  /** Where diff PNGs and visual-diff.json go. */
+  outputDir: string;
+};
+
+export type VisualStepStatus = "same" | "changed" | "added" | "removed" | "missing";
+
+export type VisualStepResult = {
+  status: VisualStepStatus;
+  type: ScreenType;
+  beforeStep: number | null;
+  afterStep: number | null;
+  /** "screenKey" when both screens have identical normalized text, "position" for the leftovers in between. */
+  matchedBy: "screenKey" | "position" | null;
+  diffRatio: number | null;
+  diffImage: string | null;
+};
+
+export type VisualFunnelResult = {
+  key: string;
+  url: string;
+  changedSteps: number;
+  steps: VisualStepResult[];
+};
+
+type StepPair = { before: StepRecord | null; after: StepRecord | null; matchedBy: VisualStepResult["matchedBy"] };
+
+function contentKey(step: StepRecord): string {
+  // Summaries from before screen keys existed: fall back to type + headline.
+  return step.screenKey || `${step.type}:${step.headline ?? ""}`;
+}
+
+/**
+ * Pair up the steps of two runs by screen content (LCS over screen keys). Steps left between two
+ * matched anchors are paired by position when they have the same type, so a screen whose text
+ * changed is still compared visually; everything else is added/removed.
+ */
+export function alignSteps(before: StepRecord[], after: StepRecord[]): StepPair[] {
+  const a = before.map(contentKey);
+  const b = after.map(contentKey);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const pairs: StepPair[] = [];
+  let gapBefore: StepRecord[] = [];
+  let gapAfter: StepRecord[] = [];
+  const flushGap = () => {
+    const length = Math.max(gapBefore.length, gapAfter.length);
+    for (let index = 0; index < length; index += 1) {
+      const old = gapBefore[index] ?? null;
+      const current = gapAfter[index] ?? null;
+      if (old && current && old.type === current.type) {
+        pairs.push({ before: old, after: current, matchedBy: "position" });
+      } else {
+        if (old) pairs.push({ before: old, after: null, matchedBy: null });
+        if (current) pairs.push({ before: null, after: current, matchedBy: null });
+      }
+    }
+    gapBefore = [];
+    gapAfter = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      flushGap();
+      pairs.push({ before: before[i], after: after[j], matchedBy: "screenKey" });
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      gapBefore.push(before[i]);
+      i += 1;
+    } else {
+      gapAfter.push(after[j]);
+      j += 1;
+    }
+  }
+  gapBefore.push(...before.slice(i));
+  gapAfter.push(...after.slice(j));
+  flushGap();
+  return pairs;
+}
+
+async function readPng(path: string): Promise<PNG | null> {
+  const data = await readFile(path).catch(() => null);
+  return data ? PNG.sync.read(data) : null;
+}
+
+/** Copy into a width×height RGBA canvas padded with white, so full-page shots of different height compare. */
+function padded(png: PNG, width: number, height: number): Buffer {
+  if (png.width === width && png.height === height) return png.data;
+  const canvas = Buffer.alloc(width * height * 4, 255);
+  for (let y = 0; y < png.height; y += 1) {
+    png.data.copy(canvas, y * width * 4, y * png.width * 4, (y + 1) * png.width * 4);
+  }
+  return canvas;
+}
+
+/** Paint masked regions the same colour in both images; returns the number of masked pixels. */
+function applyMasks(images: Buffer[], width: number, height: number, masks: MaskRect[]): number {
+  const covered = new Uint8Array(width * height);
+  for (const mask of masks) {
+    const x0 = Math.max(0, Math.floor(mask.x));
+    const y0 = Math.max(0, Math.floor(mask.y));
+    const x1 = Math.min(width, Math.ceil(mask.x + mask.width));
+    const y1 = Math.min(height, Math.ceil(mask.y + mask.height));
+    for (let y = y0; y < y1; y += 1) {
+      for (let x = x0; x < x1; x += 1) {
+        covered[y * width + x] = 1;
+        for (const image of images) image.writeUInt32BE(0xff00ffff, (y * width + x) * 4);
+      }
+    }
+  }
+  return covered.reduce((sum, value) => sum + value, 0);
+}
+
+async function compareScreenshots(
+  beforePath: string,
+  afterPath: string,
+  diffPath: string,
+  masks: MaskRect[],
+  options: VisualDiffOptions,
+): Promise<{ diffRatio: number; changed: boolean } | null> {
+  const [before, after] = await Promise.all([readPng(beforePath), readPng(afterPath)]);
+  if (!before || !after) return null;
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const images = [Buffer.from(padded(before, width, height)), Buffer.from(padded(after, width, height))];
+  const masked = applyMasks(images, width, height, masks);
+  const diff = new PNG({ width, height });
+  const diffPixels = pixelmatch(images[0], images[1], diff.data, width, height, { threshold: options.threshold });
+  const diffRatio = Number((diffPixels / Math.max(1, width * height - masked)).toFixed(4));
+  const changed = diffRatio > options.maxDiffRatio;
+  if (changed) await writeFile(diffPath, PNG.sync.write(diff));
+  return { diffRatio, changed };
+}
+
+async function diffFunnel(
+  key: string,
+  before: FunnelRunSummary,
+  after: FunnelRunSummary,
+  options: VisualDiffOptions,
+): Promise<VisualFunnelResult> {
+  const masks = options.masks.filter((mask) => !mask.funnel || key.startsWith(mask.funnel));
+  const diffDir = `${options.outputDir}/${key}`;
+  const steps: VisualStepResult[] = [];
+
+  // One pair at a time: full-page screenshots at device scale are large.
+  for (const pair of alignSteps(before.steps, after.steps)) {
+    const type = (pair.after ?? pair.before)!.type;
+    const base = {
+      type,
+      beforeStep: pair.before?.step ?? null,
+      afterStep: pair.after?.step ?? null,
+      matchedBy: pair.matchedBy,
+      diffRatio: null,
+      diffImage: null,
+    };
+    if (!pair.before || !pair.after) {
+      steps.push({ ...base, status: pair.before ? "removed" : "added" });
+      continue;
+    }
+    await ensureDir(diffDir);
+    const name = `${String(pair.before.step).padStart(2, "0")}-${String(pair.after.step).padStart(2, "0")}_${type}.png`;
+    const result = await compareScreenshots(
+      `${before.funnelDir}/${pair.before.screenshot}`,
+      `${after.funnelDir}/${pair.after.screenshot}`,
+      `${diffDir}/${name}`,
+      masks,
+      options,
+    );
+    if (!result) {
+      steps.push({ ...base, status: "missing" });
+      continue;
+    }
+    steps.push({
+      ...base,
+      status: result.changed ? "changed" : "same",
+      diffRatio: result.diffRatio,
+      diffImage: result.changed ? `${diffDir}/${name}` : null,
+    });
+  }
+
+  return {
+    key,
+    url: after.url,
+    changedSteps: steps.filter((step) => step.status !== "same").length,
+    steps,
+  };
+}
+
+/**
+ * Pixel-compare every run present in both folders; writes diff PNGs and visual-diff.json into options.outputDir.
+ */
+export async function diffScreenshots(
+  before: FunnelRunSummary[],
+  beforeRoot: string,
+  after: FunnelRunSummary[],
+  afterRoot: string,
+  options: VisualDiffOptions,
+): Promise<VisualFunnelResult[]> {
+  const beforeByKey = new Map(before.map((summary) => [relativeKey(summary, beforeRoot), summary]));
+  const results: VisualFunnelResult[] = [];
+  for (const summary of after) {
+    const key = relativeKey(summary, afterRoot);
+    const old = beforeByKey.get(key);
+    if (old) results.push(await diffFunnel(key, old, summary, options));
+  }
+  await ensureDir(options.outputDir);
+  await writeJsonFile(`${options.outputDir}/visual-diff.json`, {
+    before: beforeRoot,
+    after: afterRoot,
+    threshold: options.threshold,
+    maxDiffRatio: options.maxDiffRatio,
+    masks: options.masks,
+    funnels: results,
+  });
+  return results;
+}
+
+export function formatVisualDiff(results: VisualFunnelResult[]): string {
+  const lines: string[] = [];
+  for (const funnel of results) {
+    if (funnel.changedSteps === 0) {
+      lines.push(`= ${funnel.key}: ${funnel.steps.length} step(s) visually unchanged`);
+      continue;
+    }
+    lines.push(`~ ${funnel.key}: ${funnel.changedSteps} of ${funnel.steps.length} step(s) differ`);
+    for (const step of funnel.steps) {
+      const before = String(step.beforeStep ?? "").padStart(2, "0");
+      const after = String(step.afterStep ?? "").padStart(2, "0");
+      if (step.status === "changed") {
+        const percent = ((step.diffRatio ?? 0) * 100).toFixed(1);
+        lines.push(`    step ${before} → ${after} ${step.type}: ${percent}% pixels differ  ${step.diffImage}`);
+      } else if (step.status === "added") {
+        lines.push(`    + step ${after} ${step.type}: new screen`);
+      } else if (step.status === "removed") {
+        lines.push(`    - step ${before} ${step.type}: screen gone`);
+      } else if (step.status === "missing") {
+        lines.push(`    ? step ${before} → ${after} ${step.type}: screenshot missing`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * "x,y,w,h;x,y,w,h" (from --mask) → MaskRect[].
+ */
+export function parseMasks(raw: string): MaskRect[] {
+  return raw
+    .split(";")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const values = item.split(",").map((part) => Number(part.trim()));
+      if (values.length !== 4 || values.some((value) => !Number.isFinite(value) || value < 0)) {
+        throw new Error(`Invalid mask "${item}": expected "x,y,width,height" in screenshot pixels.`);
+      }
+      const [x, y, width, height] = values;
+      return { x, y, width, height };
+    });
+}
+
+/**
+ * Masks file (.json / .yaml): a list of { x, y, width, height, funnel? }, or { masks: [...] }.
+ */
+export async function loadMasksFile(path: string): Promise<MaskRect[]> {
+  const text = await readFile(path, "utf8").catch(() => {
+    throw new Error(`Masks file ${path} not found.`);
+  });
+  const parsed: unknown = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { masks?: unknown } | null)?.masks;
+  if (!Array.isArray(list)) throw new Error(`Invalid masks file ${path}: expected a list of { x, y, width, height }.`);
+  return list.map((item, index) => {
+    const mask = item as Partial<MaskRect>;
+    const numbers = [mask.x, mask.y, mask.width, mask.height];
+    if (numbers.some((value) => typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+      throw new Error(`Invalid masks file ${path}: masks[${index}] needs non-negative x, y, width, height.`);
+    }
+    if (mask.funnel !== undefined && typeof mask.funnel !== "string") {
+      throw new Error(`Invalid masks file ${path}: masks[${index}].funnel must be a string.`);
+    }
+    return { x: mask.x!, y: mask.y!, width: mask.width!, height: mask.height!, ...(mask.funnel ? { funnel: mask.funnel } : {}) };
+  });
+}
@@ -0,0 +1,153 @@
+import type { Page } from "playwright";
+import type { ScreenType } from "../classifier/classifyScreen";
+
+/**
+ * Which screen a rule is about. Every given condition must hold:
+ * a visible element, body text (plain substring or "/regex/flags") and/or a URL path glob.
+ */
+export type ScreenMatch = {
+  selector?: string;
+  text?: string;
+  path?: string;
+};
+
+export type ScreenRule = {
+  when: ScreenMatch;
+  /** Skip classifyScreen heuristics and use this type. */
+  type?: ScreenType;
+  /** Option to pick: label substring or "/regex/flags" (overrides the answer strategy on this screen). */
+  answer?: string;
+  /** CTA selectors tried before the generic continue/next texts on this screen. */
+  cta?: string[];
+  /** Extra wait before classifying this screen. */
+  waitMs?: number;
+};
+
+/**
+ * Quirks of one funnel, keyed by "host[/path-glob]" ("coursiv.io", "quiz.fitme.expert/intro-*").
+ */
+export type FunnelRule = {
+  match: string;
+  /** Elements hidden before every step (cookie banners, chat widgets, sticky promos). */
+  ignore?: string[];
+  /** Extra wait before classifying every step. */
+  waitMs?: number;
+  /** CTA selectors tried before the generic continue/next texts on every screen. */
+  ctaSelectors?: string[];
+  /** This funnel's paywall, recognised before the price heuristics. */
+  paywallMarker?: ScreenMatch;
+  screens?: ScreenRule[];
+};
+
+/** All rules matching the current URL, merged in file order, plus the screen rule matching the page. */
+export type StepRules = {
+  /** `match` patterns of the applied rules, for logs. */
+  matched: string[];
+  ignore: string[];
+  waitMs: number;
+  ctaSelectors: string[];
+  paywallMarkers: ScreenMatch[];
+  screens: ScreenRule[];
+  screen: ScreenRule | null;
+};
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * "coursiv.io" matches the host and its subdomains on any path; "coursiv.io/dynamic*" also checks the path.
+ */
+export function matchesRulePattern(rawUrl: string, pattern: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return false;
+  }
+  const slash = pattern.indexOf("/");
+  const host = (slash >= 0 ? pattern.slice(0, slash) : pattern).toLowerCase().replace(/^www\./, "");
+  const path = slash >= 0 ? pattern.slice(slash) : "";
+  const hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+  if (hostname !== host && !hostname.endsWith(`.${host}`)) return false;
+  return path === "" || globToRegExp(path).test(url.pathname);
+}
+
+/** "/regex/flags" → that regex; anything else → case-insensitive substring. */
+export function textMatcher(text: string): RegExp {
+  const literal = text.match(/^\/(.+)\/([a-z]*)$/);
+  // Without g/y: the matcher is reused across screens and options, and test() would keep lastIndex
+  if (literal) return new RegExp(literal[1], literal[2].replace(/[gy]/g, ""));
+  return new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+}
+
+export function rulesForUrl(rules: FunnelRule[], url: string): Omit<StepRules, "screen"> | null {
+  const matching = rules.filter((rule) => matchesRulePattern(url, rule.match));
+  if (matching.length === 0) return null;
+  return {
+    matched: matching.map((rule) => rule.match),
+    ignore: matching.flatMap((rule) => rule.ignore ?? []),
+    waitMs: matching.reduce((total, rule) => total + (rule.waitMs ?? 0), 0),
+    ctaSelectors: matching.flatMap((rule) => rule.ctaSelectors ?? []),
+    paywallMarkers: matching.flatMap((rule) => (rule.paywallMarker ? [rule.paywallMarker] : [])),
+    screens: matching.flatMap((rule) => rule.screens ?? []),
+  };
+}
+
+async function screenMatches(page: Page, match: ScreenMatch, bodyText: string): Promise<boolean> {
+  if (match.path && !globToRegExp(match.path).test(new URL(page.url()).pathname)) return false;
+  if (match.text && !textMatcher(match.text).test(bodyText)) return false;
+  if (match.selector && !(await page.locator(match.selector).first().isVisible().catch(() => false))) return false;
+  return Boolean(match.path || match.text || match.selector);
+}
+
+/**
+ * Hide ignored elements, wait the configured time and find the screen rule for the current page.
+ * Returns null when no rule applies to the URL. `wait: false` skips the waits (archived pages).
+ */
+export async function prepareStepRules(page: Page, rules: FunnelRule[], { wait = true } = {}): Promise<StepRules | null> {
+  const active = rulesForUrl(rules, page.url());
+  if (!active) return null;
+  for (const selector of active.ignore) {
+    await page
+      .locator(selector)
+      .evaluateAll((elements) => elements.forEach((el) => (el as HTMLElement).style.setProperty("display", "none", "important")))
+      .catch(() => undefined);
+  }
+  if (wait && active.waitMs > 0) await page.waitForTimeout(active.waitMs);
+
+  const bodyText = await page.innerText("body").catch(() => "");
+  let screen: ScreenRule | null = null;
+  for (const rule of active.screens) {
+    if (await screenMatches(page, rule.when, bodyText)) {
+      screen = rule;
+      break;
+    }
+  }
+  if (wait && screen?.waitMs) await page.waitForTimeout(screen.waitMs);
+  return { ...active, screen };
+}
+
+/**
+ * Rule-decided screen type (paywall marker, forced screen type), or null to run the detectors.
+ */
+export async function classifyByRules(page: Page, rules: StepRules): Promise<{ type: ScreenType; reason: string; rule: string } | null> {
+  const source = rules.matched.join(", ");
+  const bodyText = await page.innerText("body").catch(() => "");
+  for (const marker of rules.paywallMarkers) {
+    if (await screenMatches(page, marker, bodyText)) {
+      return { type: "paywall", reason: `Rule ${source}: paywall marker matched.`, rule: source };
+    }
+  }
+  if (rules.screen?.type) {
+    return { type: rules.screen.type, reason: `Rule ${source}: screen type forced to ${rules.screen.type}.`, rule: source };
+  }
+  return null;
+}
+
+/** Rule CTA selectors for the current step, screen-specific first. */
+export function ruleCtaSelectors(rules: StepRules | null | undefined): string[] {
+  if (!rules) return [];
+  return [...(rules.screen?.cta ?? []), ...rules.ctaSelectors];
+}
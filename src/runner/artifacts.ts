@@ -0,0 +1,108 @@
+import { rename, rm } from "node:fs/promises";
+import type { BrowserContext, BrowserContextOptions, Page } from "playwright";
+import type { ConsoleLog, StopReason } from "../utils/logger";
+import type { FunnelPaths } from "../utils/fileManager";
+
+export type ArtifactKind = "trace" | "har" | "video";
+
+/**
+ * When recorded artifacts are kept:
+ * always; on-failure — the run stopped on an error, a loop, "no action twice" or a replay divergence; no-paywall — paywall not reached.
+ */
+export type RetentionMode = "always" | "on-failure" | "no-paywall";
+
+export type ArtifactSettings = {
+  capture: ArtifactKind[];
+  retain: RetentionMode;
+};
+
+export const ARTIFACT_KINDS: ArtifactKind[] = ["trace", "har", "video"];
+export const RETENTION_MODES: RetentionMode[] = ["always", "on-failure", "no-paywall"];
+
+const FAILURE_STOPS: StopReason[] = ["loop", "no_action", "page_closed", "navigation_failed", "diverged", "fatal"];
+
+/**
+ * "trace,har,video" or "all" → ArtifactKind[].
+ */
+export function parseArtifactKinds(raw: string): ArtifactKind[] {
+  const items = raw.split(",").map((item) => item.trim()).filter(Boolean);
+  if (items.length === 1 && items[0] === "all") return [...ARTIFACT_KINDS];
+  for (const item of items) {
+    if (!ARTIFACT_KINDS.includes(item as ArtifactKind)) {
+      throw new Error(`Unknown artifact "${item}": expected ${ARTIFACT_KINDS.join(", ")} or all.`);
+    }
+  }
+  return Array.from(new Set(items as ArtifactKind[]));
+}
+
+export function parseRetentionMode(raw: string): RetentionMode {
+  if (!RETENTION_MODES.includes(raw as RetentionMode)) {
+    throw new Error(`Unknown retention mode "${raw}": expected ${RETENTION_MODES.join(", ")}.`);
+  }
+  return raw as RetentionMode;
+}
+
+export function shouldRetain(mode: RetentionMode, stopReason: StopReason | null, reachedPaywall: boolean): boolean {
+  if (mode === "always") return true;
+  if (mode === "no-paywall") return !reachedPaywall;
+  return stopReason === null || FAILURE_STOPS.includes(stopReason);
+}
+
+/**
+ * newContext() options for HAR and video recording. Both are only flushed to disk by context.close().
+ */
+export function artifactContextOptions(settings: ArtifactSettings | undefined, paths: FunnelPaths): BrowserContextOptions {
+  const options: BrowserContextOptions = {};
+  if (settings?.capture.includes("har")) options.recordHar = { path: paths.harPath };
+  if (settings?.capture.includes("video")) options.recordVideo = { dir: `${paths.funnelDir}/.video` };
+  return options;
+}
+
+export async function startTracing(context: BrowserContext, settings: ArtifactSettings | undefined): Promise<void> {
+  if (!settings?.capture.includes("trace")) return;
+  await context.tracing.start({ screenshots: true, snapshots: true });
+}
+
+/**
+ * Stop tracing, close the context and keep or delete the recorded files.
+ * Returns the kept file names, relative to the funnel dir. Failures are logged, never thrown:
+ * runFunnel calls this from its finally block, before summary.json is written.
+ */
+export async function finishArtifacts(
+  context: BrowserContext,
+  page: Page,
+  settings: ArtifactSettings | undefined,
+  paths: FunnelPaths,
+  retain: boolean,
+  log: ConsoleLog,
+): Promise<string[]> {
+  const warn = (action: string) => (error: Error) => log(`  -> Warning: could not ${action}: ${error.message}`);
+  const capture = settings?.capture ?? [];
+  if (capture.includes("trace")) {
+    await context.tracing.stop(retain ? { path: paths.tracePath } : {}).catch(() => undefined);
+  }
+  const video = page.video();
+  await context.close().catch(warn("close the browser context"));
+
+  const kept: string[] = [];
+  if (capture.includes("trace") && retain) kept.push(fileName(paths.tracePath));
+  if (capture.includes("har")) {
+    if (retain) kept.push(fileName(paths.harPath));
+    else await rm(paths.harPath, { force: true }).catch(warn("delete the HAR file"));
+  }
+  if (video) {
+    const recorded = await video.path().catch(() => null);
+    if (recorded && retain) {
+      await rename(recorded, paths.videoPath).then(
+        () => kept.push(fileName(paths.videoPath)),
+        warn("move the video"),
+      );
+    }
+    await rm(`${paths.funnelDir}/.video`, { recursive: true, force: true }).catch(warn("delete the video folder"));
+  }
+  return kept;
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
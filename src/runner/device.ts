@@ -0,0 +1,80 @@
+import { chromium, devices, firefox, webkit, type BrowserContextOptions, type BrowserType } from "playwright";
+import { DEFAULT_DEVICE } from "../config";
+
+export type BrowserEngine = "chromium" | "webkit" | "firefox";
+
+/** Device the funnel is run on: a Playwright descriptor name plus optional overrides. */
+export type DeviceSettings = {
+  /** Playwright descriptor name ("iPhone 13", "Pixel 7", "Desktop Chrome") or "custom". */
+  name: string;
+  engine: BrowserEngine;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  userAgent?: string;
+  isMobile?: boolean;
+};
+
+const ENGINES: Record<BrowserEngine, BrowserType> = { chromium, webkit, firefox };
+
+export function isBrowserEngine(value: string): value is BrowserEngine {
+  return value === "chromium" || value === "webkit" || value === "firefox";
+}
+
+/**
+ * Look up a descriptor name case-insensitively; "custom" needs a viewport override.
+ * The engine defaults to chromium (the runner's historical default), not the descriptor's own.
+ */
+export function resolveDevice(name: string, overrides: Partial<Omit<DeviceSettings, "name">> = {}): DeviceSettings {
+  const trimmed = name.trim();
+  if (trimmed.toLowerCase() === "custom") {
+    if (!overrides.viewport) throw new Error(`Device "custom" needs a viewport (e.g. --viewport=390x844).`);
+    return { engine: "chromium", ...overrides, name: "custom" };
+  }
+  const descriptorName = Object.keys(devices).find((key) => key.toLowerCase() === trimmed.toLowerCase());
+  if (!descriptorName) {
+    const examples = ["iPhone 13", "iPhone SE", "Pixel 7", "Galaxy S9+", "iPad Mini", "Desktop Chrome"];
+    throw new Error(`Unknown device "${name}". Use a Playwright device name, e.g. ${examples.join(", ")}.`);
+  }
+  return { engine: "chromium", ...overrides, name: descriptorName };
+}
+
+/**
+ * "390x844" → viewport.
+ */
+export function parseViewport(raw: string): { width: number; height: number } {
+  const match = raw.trim().match(/^(\d+)\s*[x×]\s*(\d+)$/i);
+  if (!match) throw new Error(`Invalid viewport "${raw}": expected WIDTHxHEIGHT, e.g. 390x844.`);
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+export function browserTypeFor(device: DeviceSettings): BrowserType {
+  return ENGINES[device.engine];
+}
+
+/**
+ * newContext() options: descriptor, then overrides. Firefox has no mobile emulation, so isMobile is dropped there.
+ */
+export function deviceContextOptions(device: DeviceSettings): BrowserContextOptions {
+  const descriptor: BrowserContextOptions = device.name === "custom" ? {} : devices[device.name];
+  const options: BrowserContextOptions = {
+    ...descriptor,
+    isMobile: device.isMobile ?? descriptor.isMobile ?? true,
+  };
+  if (device.viewport) {
+    options.viewport = device.viewport;
+    options.screen = device.viewport;
+  }
+  if (device.deviceScaleFactor !== undefined) options.deviceScaleFactor = device.deviceScaleFactor;
+  if (device.userAgent) options.userAgent = device.userAgent;
+  if (device.engine === "firefox") delete options.isMobile;
+  return options;
+}
+
+export function describeDevice(device: DeviceSettings): string {
+  const viewport = device.viewport ? ` ${device.viewport.width}x${device.viewport.height}` : "";
+  return `${device.name}${viewport} (${device.engine})`;
+}
+
+export function defaultDevice(): DeviceSettings {
+  return resolveDevice(DEFAULT_DEVICE);
+}
@@ -0,0 +1,64 @@
+import type { BrowserContextOptions } from "playwright";
+import { LOCALE_PRESETS } from "../config";
+
+export type Geolocation = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+};
+
+/** Per-run locale settings applied to the browser context. */
+export type EmulationSettings = {
+  locale: string;
+  timezoneId?: string;
+  geolocation?: Geolocation;
+  /** Defaults to "<locale>,<language>;q=0.9". */
+  acceptLanguage?: string;
+};
+
+/**
+ * "de-DE" → preset from LOCALE_PRESETS (timezone + geolocation), any other tag → locale only.
+ */
+export function resolveEmulation(locale: string): EmulationSettings {
+  const trimmed = locale.trim();
+  const preset = LOCALE_PRESETS[trimmed];
+  if (preset) return { ...preset, locale: trimmed };
+  if (!/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(trimmed)) {
+    throw new Error(`Invalid locale "${locale}": expected a BCP 47 tag like "de-DE".`);
+  }
+  return { locale: trimmed };
+}
+
+/**
+ * "52.52,13.40" or "52.52,13.40,100" → Geolocation.
+ */
+export function parseGeolocation(raw: string): Geolocation {
+  const [latitude, longitude, accuracy] = raw.split(",").map((part) => Number(part.trim()));
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new Error(`Invalid geolocation "${raw}": expected "<latitude>,<longitude>[,<accuracy>]".`);
+  }
+  return Number.isFinite(accuracy) ? { latitude, longitude, accuracy } : { latitude, longitude };
+}
+
+export function acceptLanguageFor(settings: EmulationSettings): string {
+  if (settings.acceptLanguage) return settings.acceptLanguage;
+  const language = settings.locale.split("-")[0];
+  return language === settings.locale ? settings.locale : `${settings.locale},${language};q=0.9`;
+}
+
+/**
+ * Extra newContext() options for the emulation settings (merged over the device descriptor).
+ */
+export function emulationContextOptions(settings: EmulationSettings | undefined): BrowserContextOptions {
+  if (!settings) return {};
+  const options: BrowserContextOptions = {
+    locale: settings.locale,
+    extraHTTPHeaders: { "Accept-Language": acceptLanguageFor(settings) },
+  };
+  if (settings.timezoneId) options.timezoneId = settings.timezoneId;
+  if (settings.geolocation) {
+    options.geolocation = settings.geolocation;
+    options.permissions = ["geolocation"];
+  }
+  return options;
+}
@@ -0,0 +1,211 @@
+import { DEFAULT_PERSONA, EXPLORE_CONFIG } from "../config";
+import { firstStrategy, pathStrategy, personaStrategy } from "../navigator/answerStrategy";
+import { runFunnel, type FunnelRunSummary, type RunOptions } from "./runFunnel";
+import type { ScreenType } from "../classifier/classifyScreen";
+import { ensureDir, resultsDir, sanitize, slugFromUrl, writeJsonFile } from "../utils/fileManager";
+import { prefixedConsole } from "../utils/logger";
+
+export type ExploreOrder = "bfs" | "dfs";
+
+export type ExploreOptions = {
+  order: ExploreOrder;
+  /** Branch only on the first N answers of a path. */
+  maxDepth: number;
+  /** Try at most N options per question (including the one already taken). */
+  maxBranches: number;
+  /** Hard cap on browser runs per funnel. */
+  maxRuns: number;
+};
+
+export type ExploreTreeNode = {
+  screenKey: string;
+  type: ScreenType;
+  excerpt: string;
+  screenshot: string;
+  /** Answers that led here from the parent screen. */
+  via: string[];
+  /** Branch ids (see ExploreBranch.id) passing through this node. */
+  branches: string[];
+  children: ExploreTreeNode[];
+};
+
+export type ExploreBranch = {
+  id: string;
+  path: number[];
+  answers: string[];
+  funnelDir: string;
+  totalSteps: number;
+  reachedPaywall: boolean;
+  paywallScreenKey: string | null;
+  paywallScreenshot: string | null;
+  detectedPrices: string[];
+};
+
+export type ExploreResult = {
+  url: string;
+  persona: string;
+  options: ExploreOptions;
+  branches: ExploreBranch[];
+  paywalls: Array<{ screenKey: string; screenshot: string; prices: string[]; branches: string[] }>;
+  tree: ExploreTreeNode | null;
+};
+
+function branchId(path: number[]): string {
+  return path.length > 0 ? `b-${path.join("-")}` : "b-root";
+}
+
+function toBranch(path: number[], summary: FunnelRunSummary): ExploreBranch {
+  const lastStep = summary.steps[summary.steps.length - 1];
+  const paywallStep = summary.reachedPaywall && lastStep?.type === "paywall" ? lastStep : null;
+  return {
+    id: branchId(path),
+    path: summary.answers.map((answer) => answer.index),
+    answers: summary.answers.map((answer) => answer.text),
+    funnelDir: summary.funnelDir,
+    totalSteps: summary.totalSteps,
+    reachedPaywall: summary.reachedPaywall,
+    paywallScreenKey: paywallStep?.screenKey ?? null,
+    paywallScreenshot: paywallStep ? `${summary.funnelDir}/${paywallStep.screenshot}` : null,
+    detectedPrices: summary.detectedPrices,
+  };
+}
+
+/**
+ * Merge the linear step lists of all runs into one tree.
+ * Children are keyed by screen content, so branches that only differ in the answer but land
+ * on the same screen collapse into one node (with several `via` labels).
+ */
+function buildTree(runs: Array<{ branch: ExploreBranch; summary: FunnelRunSummary }>): ExploreTreeNode | null {
+  let root: ExploreTreeNode | null = null;
+
+  for (const { branch, summary } of runs) {
+    if (summary.steps.length === 0) continue;
+    const [first, ...rest] = summary.steps;
+    if (!root) {
+      root = {
+        screenKey: first.screenKey,
+        type: first.type,
+        excerpt: first.excerpt,
+        screenshot: `${summary.funnelDir}/${first.screenshot}`,
+        via: [],
+        branches: [],
+        children: [],
+      };
+    }
+    root.branches.push(branch.id);
+
+    let current = root;
+    let previousStep = first;
+    for (const step of rest) {
+      // Answer given on the previous screen (if it was a question) labels the edge.
+      const answer = summary.answers.find((item) => item.step === previousStep.step);
+      const via = answer ? answer.text : "(continue)";
+      let child = current.children.find((node) => node.screenKey === step.screenKey);
+      if (!child) {
+        child = {
+          screenKey: step.screenKey,
+          type: step.type,
+          excerpt: step.excerpt,
+          screenshot: `${summary.funnelDir}/${step.screenshot}`,
+          via: [],
+          branches: [],
+          children: [],
+        };
+        current.children.push(child);
+      }
+      if (!child.via.includes(via)) child.via.push(via);
+      child.branches.push(branch.id);
+      current = child;
+      previousStep = step;
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Explore answer branches of one funnel.
+ * Every branch is a full runFunnel() in a fresh browser context: it replays the prefix path, then takes
+ * a different option at the next question and continues with first options.
+ */
+export async function exploreFunnel(
+  url: string,
+  overrides: Partial<ExploreOptions> = {},
+  runOptions: Omit<RunOptions, "answerStrategy" | "variant"> = {},
+): Promise<ExploreResult> {
+  const options: ExploreOptions = { ...EXPLORE_CONFIG, ...overrides };
+  const persona = runOptions.persona ?? DEFAULT_PERSONA;
+  const log = runOptions.log ?? prefixedConsole("");
+  const slug = slugFromUrl(url);
+  const exploreRoot = persona.id === "default" ? "explore" : `explore-${sanitize(persona.id)}`;
+  // Past the replayed prefix a non-default persona still answers gender/age/goal questions its own way.
+  const fallback = persona.id === "default" ? firstStrategy() : personaStrategy(persona);
+  const queue: number[][] = [[]];
+  const visited = new Set<string>();
+  const runs: Array<{ branch: ExploreBranch; summary: FunnelRunSummary }> = [];
+
+  while (queue.length > 0 && runs.length < options.maxRuns) {
+    const prefix = options.order === "bfs" ? queue.shift()! : queue.pop()!;
+    const id = branchId(prefix);
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    log(`  -> Explore ${options.order.toUpperCase()} [${runs.length + 1}/${options.maxRuns}] ${id}`);
+    const summary = await runFunnel(url, {
+      ...runOptions,
+      answerStrategy: pathStrategy(prefix, fallback),
+      persona,
+      variant: `${exploreRoot}/${id}`,
+    });
+    const branch = toBranch(prefix, summary);
+    runs.push({ branch, summary });
+
+    // New decision points are the answers given after the replayed prefix.
+    const taken = summary.answers;
+    const children: number[][] = [];
+    for (let depth = prefix.length; depth < Math.min(taken.length, options.maxDepth); depth += 1) {
+      const basePath = taken.slice(0, depth).map((answer) => answer.index);
+      const optionCount = Math.min(taken[depth].total, options.maxBranches);
+      for (let option = 0; option < optionCount; option += 1) {
+        if (option === taken[depth].index) continue;
+        children.push([...basePath, option]);
+      }
+    }
+    // DFS pops from the end, so push in reverse to keep the shallow-first option order.
+    queue.push(...(options.order === "dfs" ? children.reverse() : children));
+  }
+
+  const branches = runs.map((run) => run.branch);
+  const paywallMap = new Map<string, ExploreResult["paywalls"][number]>();
+  for (const branch of branches) {
+    if (!branch.paywallScreenKey || !branch.paywallScreenshot) continue;
+    const existing = paywallMap.get(branch.paywallScreenKey);
+    if (existing) {
+      existing.branches.push(branch.id);
+      continue;
+    }
+    paywallMap.set(branch.paywallScreenKey, {
+      screenKey: branch.paywallScreenKey,
+      screenshot: branch.paywallScreenshot,
+      prices: branch.detectedPrices,
+      branches: [branch.id],
+    });
+  }
+
+  const result: ExploreResult = {
+    url,
+    persona: persona.id,
+    options,
+    branches,
+    paywalls: Array.from(paywallMap.values()),
+    tree: buildTree(runs),
+  };
+
+  const exploreDir = `${resultsDir()}/${slug}/${exploreRoot}`;
+  await ensureDir(exploreDir);
+  await writeJsonFile(`${exploreDir}/tree.json`, result);
+  log(
+    `  -> Explored ${branches.length} branch(es), ${result.paywalls.length} distinct paywall(s). See ${exploreDir}/tree.json`,
+  );
+  return result;
+}
@@ -0,0 +1,60 @@
+import type { Browser } from "playwright";
+import { browserTypeFor, type BrowserEngine, type DeviceSettings } from "./device";
+
+export async function launchBrowser(device: DeviceSettings, headful = false): Promise<Browser> {
+  return browserTypeFor(device).launch({
+    headless: !headful,
+    slowMo: headful ? 200 : 0,
+  });
+}
+
+/**
+ * One browser per engine, launched on first use and shared by all workers.
+ * Every funnel still gets its own context, so cookies and storage never leak between runs.
+ */
+export class BrowserPool {
+  private readonly browsers = new Map<BrowserEngine, Promise<Browser>>();
+
+  constructor(private readonly headful = false) {}
+
+  get(device: DeviceSettings): Promise<Browser> {
+    let browser = this.browsers.get(device.engine);
+    if (!browser) {
+      browser = launchBrowser(device, this.headful);
+      this.browsers.set(device.engine, browser);
+    }
+    return browser;
+  }
+
+  async close(): Promise<void> {
+    const browsers = await Promise.allSettled(this.browsers.values());
+    this.browsers.clear();
+    await Promise.all(
+      browsers.map((result) => (result.status === "fulfilled" ? result.value.close().catch(() => undefined) : undefined)),
+    );
+  }
+}
+
+/**
+ * Run `task` over `items` with at most `concurrency` in flight. Results keep the input order.
+ * `worker` is the 1-based id of the worker slot that picked the item (for log prefixes).
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number, worker: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(
+    Array.from({ length: workerCount }, async (_, slot) => {
+      while (next < items.length) {
+        const index = next;
+        next += 1;
+        results[index] = await task(items[index], index, slot + 1);
+      }
+    }),
+  );
+  return results;
+}
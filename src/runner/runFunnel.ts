@@ -1,28 +1,48 @@
-import { chromium, webkit, devices, type Page } from "playwright";
-import { RUN_CONFIG } from "../config";
-import { classifyScreen } from "../classifier/classifyScreen";
-import { handleStepAction } from "../navigator/stepHandler";
-import { StepLogger } from "../utils/logger";
+import type { Browser, Page } from "playwright";
+import { DEFAULT_PERSONA, RUN_CONFIG } from "../config";
+import { classifyScreen, type ClassifierBreakdown, type ScreenType } from "../classifier/classifyScreen";
+import { getScreenHeadline, getScreenKey } from "../classifier/screenKey";
+import { fingerprintSimilarity, getScreenFingerprint, isSameScreen, type ScreenFingerprint } from "../classifier/screenFingerprint";
+import { handleStepAction, type ActionResult } from "../navigator/stepHandler";
+import { firstStrategy, type AnswerRecord, type AnswerStrategy } from "../navigator/answerStrategy";
+import type { Persona } from "../persona/persona";
+import { acceptLanguageFor, emulationContextOptions, type EmulationSettings } from "./emulation";
+import { defaultDevice, describeDevice, deviceContextOptions, type DeviceSettings } from "./device";
+import { launchBrowser } from "./pool";
+import {
+  artifactContextOptions,
+  finishArtifacts,
+  shouldRetain,
+  startTracing,
+  type ArtifactSettings,
+} from "./artifacts";
+import {
+  prefixedConsole,
+  StepLogger,
+  type ConsoleLog,
+  type RunEventPayloads,
+  type StopReason,
+} from "../utils/logger";
 import {
   buildClassifiedFilename,
   buildFunnelPaths,
   buildScreenshotFilename,
   copyToClassified,
+  ensureDir,
+  funnelDirFor,
   writeJsonFile,
 } from "../utils/fileManager";
-import type { ScreenType } from "../classifier/classifyScreen";
-
-/**
- * Build a snapshot key from URL + DOM length + first N chars.
- * Including URL means SPA route changes are detected even if DOM looks similar.
- */
-async function getStableDomSnapshot(page: Page): Promise<string> {
-  if (page.isClosed()) return `CLOSED_PAGE_HASH_${Date.now()}`;
-  const url = page.url();
-  const html = await page.content().catch(() => "");
-  const normalized = html.replace(/\s+/g, " ").trim();
-  return `${url}|${normalized.length}:${normalized.slice(0, 300)}`;
-}
+import { buildFunnelGraph, writeFunnelGraph } from "../report/funnelGraph";
+import { buildFunnelScript, writeFunnelScript } from "../report/funnelScript";
+import { extractScreenScript, type ScreenScript } from "../script/extractScript";
+import { ActionRecorder, writeReplayFile } from "../replay/recorder";
+import { captureDomSnapshot } from "../snapshot/domSnapshot";
+import { SnapshotArchive } from "../snapshot/snapshotArchive";
+import { replayStep, type ReplayCursor } from "../replay/replayer";
+import { prepareStepRules, type FunnelRule } from "../rules/funnelRules";
+import { extractPaywallOffers, type PaywallOffer } from "../paywall/extractOffers";
+import { parsePrices } from "../paywall/priceParser";
+import { buildTrackingReport, TrackingRecorder, trackingLabels, writeTrackingReport } from "../tracking/trackingRecorder";
 
 /**
  * Wait for meaningful page change (URL change, navigation, or new content).
@@ -42,234 +62,520 @@ async function waitForPageTransition(page: Page, previousUrl: string): Promise<v
   ]).catch(() => undefined);
 }
 
+export type StepRecord = {
+  step: number;
+  type: ScreenType;
+  reason: string;
+  url: string;
+  screenshot: string;
+  /** Content hash of the screen, stable across runs (see getScreenKey). */
+  screenKey: string;
+  excerpt: string;
+  headline: string;
+  /** ActionResult.messages of the action taken on this screen (empty on the last screen). */
+  actions: string[];
+  answer?: string;
+  /** Headline, copy, options, input labels and CTAs as read from the screen (see script.json). */
+  script?: ScreenScript;
+  /** Analytics events attributed to this screen, e.g. "meta:Lead" (details in tracking.json). */
+  tracking?: string[];
+  /** Confidence, runner-up and the full signal/score breakdown behind `type`. */
+  classifier?: ClassifierBreakdown;
+  /** Screen fingerprint used by loop detection; similarity to the previous step (null on the first). */
+  fingerprint?: { hash: string; tokens: number; similarity: number | null };
+};
+
 export type FunnelRunSummary = {
   url: string;
+  funnelDir: string;
   totalSteps: number;
   detectedTypes: ScreenType[];
   reachedPaywall: boolean;
+  detectedPrices: string[];
+  paywallOffers: PaywallOffer[];
   executionTimeSeconds: number;
+  /** Why the run ended (same value as the "stop" event in events.jsonl). */
+  stopReason: StopReason | null;
+  /** Set for runs driven by a recorded replay.json (see replay/replayer). */
+  replay?: { source: string; replayed: number; total: number; divergence: string | null };
+  /** Kept trace/HAR/video files in funnelDir (absent in results recorded before capture existed). */
+  artifacts?: string[];
+  /** Set when the run threw before it could finish (see recordFailedRun); stopReason is then "fatal". */
+  error?: string;
+  persona: string;
+  emulation: EmulationSettings | null;
+  device: DeviceSettings;
+  answerStrategy: string;
+  answers: AnswerRecord[];
+  steps: StepRecord[];
 };
 
-export async function runFunnel(url: string): Promise<FunnelRunSummary> {
-  const paths = await buildFunnelPaths(url);
-  const logger = new StepLogger(paths.logPath);
+/** Per-run limits. Defaults come from RUN_CONFIG; a config file may override them per funnel. */
+export type RunSettings = {
+  maxSteps: number;
+  /** Consecutive steps on the same screen (see loopSimilarity) before the loop stop. */
+  sameDomHashLimit: number;
+  /** Fingerprint similarity (0..1) at which two steps count as the same screen. */
+  loopSimilarity: number;
+  defaultTimeoutMs: number;
+  navigationTimeoutMs: number;
+};
+
+export const RUN_SETTING_KEYS: Array<keyof RunSettings> = [
+  "maxSteps",
+  "sameDomHashLimit",
+  "loopSimilarity",
+  "defaultTimeoutMs",
+  "navigationTimeoutMs",
+];
+
+export type RunOptions = {
+  answerStrategy?: AnswerStrategy;
+  /** Values typed into profile/email fields. */
+  persona?: Persona;
+  /** Device descriptor + engine; defaults to DEFAULT_DEVICE on Chromium. */
+  device?: DeviceSettings;
+  /** Locale, timezone, geolocation and Accept-Language for the browser context. */
+  emulation?: EmulationSettings;
+  /** Results subfolder inside the funnel dir, for repeated runs of the same URL. */
+  variant?: string;
+  /** Overrides of RUN_CONFIG limits for this run. */
+  settings?: Partial<RunSettings>;
+  /** Only used when the run launches its own browser. */
+  headful?: boolean;
+  /** Shared browser (see BrowserPool); the run only opens and closes its own context. Omitted → own browser. */
+  browser?: Browser;
+  /** Per-domain rules file entries (see rules/funnelRules); matched against the page URL on every step. */
+  rules?: FunnelRule[];
+  /** Drive the run along a recorded path instead of handleStepAction heuristics. */
+  replay?: ReplayCursor;
+  /** Opt-in trace/HAR/video recording and when to keep it. */
+  artifacts?: ArtifactSettings;
+  /** Console output of this run, e.g. prefixed with the worker id. Defaults to plain console.log. */
+  log?: ConsoleLog;
+};
+
+export async function runFunnel(url: string, options: RunOptions = {}): Promise<FunnelRunSummary> {
+  const paths = await buildFunnelPaths(url, options.variant);
+  const logger = new StepLogger(paths.logPath, paths.eventsPath);
   await logger.init(url);
-  console.log(`  -> Funnel slug: ${paths.slug}`);
+  const log = options.log ?? prefixedConsole("");
+  log(`  -> Funnel slug: ${paths.slug}`);
   const startedAt = Date.now();
-  const isHeadful =
-    process.env.HEADFUL === "true" || process.argv.includes("--headful");
-  const useSafari = process.argv.includes("--safari");
-  const browserType = useSafari ? webkit : chromium;
-  console.log(
-    `Mode: ${isHeadful ? "HEADFUL" : "HEADLESS"} | Browser: ${
-      useSafari ? "WebKit" : "Chromium"
-    }`,
+  const isHeadful = options.headful ?? false;
+  const settings: RunSettings = {
+    maxSteps: RUN_CONFIG.maxSteps,
+    sameDomHashLimit: RUN_CONFIG.sameDomHashLimit,
+    loopSimilarity: RUN_CONFIG.loopSimilarity,
+    defaultTimeoutMs: RUN_CONFIG.defaultTimeoutMs,
+    navigationTimeoutMs: RUN_CONFIG.navigationTimeoutMs,
+    ...options.settings,
+  };
+  const device = options.device ?? defaultDevice();
+  const answerStrategy = options.answerStrategy ?? firstStrategy();
+  const persona = options.persona ?? DEFAULT_PERSONA;
+  log(
+    `Mode: ${isHeadful ? "HEADFUL" : "HEADLESS"} | Device: ${describeDevice(device)} | Persona: ${persona.id} | Answers: ${answerStrategy.name}`,
   );
   const detectedTypes = new Set<ScreenType>();
+  const answers: AnswerRecord[] = [];
+  const steps: StepRecord[] = [];
+  let detectedPrices: string[] = [];
+  let paywallOffers: PaywallOffer[] = [];
   let reachedPaywall = false;
   let totalSteps = 0;
 
-  const browser = await browserType.launch({
-    headless: !isHeadful,
-    slowMo: isHeadful ? 200 : 0,
-  });
+  const ownsBrowser = !options.browser;
+  const browser = options.browser ?? (await launchBrowser(device, isHeadful));
   const context = await browser.newContext({
-    ...devices["iPhone 13"],
-    isMobile: true,
+    ...deviceContextOptions(device),
+    ...emulationContextOptions(options.emulation),
+    ...artifactContextOptions(options.artifacts, paths),
   });
-  context.setDefaultTimeout(RUN_CONFIG.defaultTimeoutMs);
+  context.setDefaultTimeout(settings.defaultTimeoutMs);
+  await startTracing(context, options.artifacts);
+  const tracking = new TrackingRecorder(context);
+  const recorder = await ActionRecorder.attach(context);
+  const snapshots = new SnapshotArchive(paths.funnelDir);
+  const replay = options.replay;
+  let divergence: string | null = null;
 
   const page = await context.newPage();
 
+  const emit = logger.emit.bind(logger);
+  let stopReason: StopReason | null = null;
+  const stop = async (
+    step: number | null,
+    reason: StopReason,
+    detail: string | null,
+    extra: Pick<RunEventPayloads["stop"], "prices" | "offers"> = {},
+  ) => {
+    stopReason = reason;
+    await emit("stop", step, page.isClosed() ? url : page.url(), { reason, detail, ...extra });
+  };
+
   try {
+    await emit("run_started", null, url, {
+      persona: persona.id,
+      personaSummary: `${persona.id} (${persona.gender}, ${persona.age} y.o., goal "${persona.goal}")`,
+      device: describeDevice(device),
+      answerStrategy: answerStrategy.name,
+      emulation: options.emulation
+        ? {
+            locale: options.emulation.locale,
+            timezoneId: options.emulation.timezoneId ?? null,
+            geolocation: options.emulation.geolocation
+              ? `${options.emulation.geolocation.latitude},${options.emulation.geolocation.longitude}`
+              : null,
+            acceptLanguage: acceptLanguageFor(options.emulation),
+          }
+        : null,
+    });
+
     // Шаг 7: retry page.goto on timeout
     try {
-      await page.goto(url, { waitUntil: "domcontentloaded", timeout: RUN_CONFIG.defaultTimeoutMs });
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: settings.defaultTimeoutMs });
     } catch (gotoError) {
       const msg = gotoError instanceof Error ? gotoError.message : String(gotoError);
-      await logger.event(`page.goto first attempt failed: ${msg}. Retrying with networkidle...`);
+      await emit("rescue", null, url, { kind: "goto_retry", recovered: true, detail: msg });
       try {
-        await page.goto(url, { waitUntil: "networkidle", timeout: 25_000 });
+        await page.goto(url, { waitUntil: "networkidle", timeout: settings.navigationTimeoutMs });
       } catch (retryError) {
         const retryMsg = retryError instanceof Error ? retryError.message : String(retryError);
-        await logger.event(`page.goto retry also failed: ${retryMsg}. Skipping funnel.`);
+        await stop(null, "navigation_failed", retryMsg);
         throw retryError;
       }
     }
 
-    await logger.event(`Opened ${url}`);
+    await emit("transition", null, page.url(), { from: "about:blank", to: page.url(), urlChanged: true });
 
-    let previousHash = "";
+    let previousFingerprint: ScreenFingerprint | null = null;
     let sameHashCount = 0;
     let noActionCount = 0;
     let emailReached = false;
 
-    for (let step = 1; step <= RUN_CONFIG.maxSteps + 15; step += 1) {
-      // Hard limit: 60 steps before email, 75 steps after email reaches
-      if (!emailReached && step > RUN_CONFIG.maxSteps) break;
-      if (emailReached && step > RUN_CONFIG.maxSteps + 15) break;
+    for (let step = 1; step <= settings.maxSteps + 15; step += 1) {
+      // Hard limit: maxSteps before email, maxSteps + 15 after email reaches
+      if (!emailReached && step > settings.maxSteps) break;
+      if (emailReached && step > settings.maxSteps + 15) break;
       const stepLabel = `[${paths.slug}] STEP ${String(step).padStart(2, "0")}`;
+      tracking.enterScreen(step);
       if (page.isClosed()) {
-        console.log(`${stepLabel} page closed externally, stop.`);
-        await logger.event("Page was closed externally. Stopping.");
+        log(`${stepLabel} page closed externally, stop.`);
+        await stop(step, "page_closed", "closed externally");
         break;
       }
 
-      const stepMessages: string[] = [];
-
       try {
         await page.waitForTimeout(1_500);
 
-        let classification = await classifyScreen(page, step);
-        // Forced non-paywall on STEP 01
-        if (step === 1 && classification.type === "paywall") {
-          classification = { type: "other", reason: "Forced non-paywall on STEP 01." };
+        const stepRules = options.rules ? await prepareStepRules(page, options.rules) : null;
+        if (stepRules) {
+          log(`${stepLabel} rules: ${stepRules.matched.join(", ")}${stepRules.screen ? " (screen rule matched)" : ""}`);
         }
-        // Safeguard: other или input + поле email в DOM → email (тип email не игнорируем)
-        const hasEmailField =
-          (await page.locator('input[type="email"]').count()) > 0 ||
-          (await page.locator('input[placeholder*="mail" i], input[name*="email" i], input[autocomplete*="email" i]').count()) > 0;
-        if (hasEmailField && (classification.type === "other" || classification.type === "input")) {
-          classification = {
-            type: "email",
-            reason: "Safeguard: overridden to email (email field in DOM).",
-          };
-        }
-        console.log(`${stepLabel} type=${classification.type}`);
+        const classification = await classifyScreen(page, step, stepRules);
+        log(
+          `${stepLabel} type=${classification.type} (confidence ${classification.confidence}${
+            classification.runnerUp ? `, runner-up ${classification.runnerUp.type}` : ""
+          })`,
+        );
         const fileName = buildScreenshotFilename(step, classification.type);
         const screenshotPath = `${paths.funnelDir}/${fileName}`;
 
         await page.screenshot({ path: screenshotPath, fullPage: true });
         const classifiedFileName = buildClassifiedFilename(paths.slug, step, classification.type);
         await copyToClassified(classification.type, screenshotPath, classifiedFileName);
+        await captureDomSnapshot(page)
+          .then((snapshot) =>
+            snapshots.add({ step, type: classification.type, reason: classification.reason, screenshot: fileName }, snapshot),
+          )
+          .catch((error: Error) => log(`${stepLabel} DOM snapshot failed: ${error.message}`));
         totalSteps += 1;
         detectedTypes.add(classification.type);
         if (classification.type === "email") {
           emailReached = true;
         }
 
-        stepMessages.push(`Classifier: ${classification.reason}`, `Saved screenshot: ${fileName}`);
+        const screenKey = await getScreenKey(page);
+        const headline = await getScreenHeadline(page);
+        const stepRecord: StepRecord = {
+          step,
+          type: classification.type,
+          reason: classification.reason,
+          url: page.url(),
+          screenshot: fileName,
+          screenKey: screenKey.key,
+          excerpt: screenKey.excerpt,
+          headline,
+          actions: [],
+          script: await extractScreenScript(page, headline),
+          classifier: {
+            confidence: classification.confidence,
+            runnerUp: classification.runnerUp,
+            scores: classification.scores,
+            signals: classification.signals,
+            evidence: classification.evidence,
+          },
+        };
+        steps.push(stepRecord);
+
+        await emit("screen_classified", step, stepRecord.url, {
+          screenType: classification.type,
+          reason: classification.reason,
+          confidence: classification.confidence,
+          runnerUp: classification.runnerUp?.type ?? null,
+          screenshot: fileName,
+          screenKey: stepRecord.screenKey,
+          headline: stepRecord.headline,
+        });
 
         if (classification.type === "paywall") {
-          const content = (await page.content()).toLowerCase();
-          const prices = Array.from(new Set(content.match(/\$\d+/g) ?? []));
-          console.log(`${stepLabel} paywall detected, stop.`);
-          stepMessages.push("Paywall detected.");
-          stepMessages.push(`Detected prices: ${prices.length > 0 ? prices.join(", ") : "none"}`);
-          stepMessages.push("Stopping funnel.");
+          const visibleText = await page.innerText("body").catch(() => "");
+          const prices = Array.from(new Set(parsePrices(visibleText).map((price) => price.raw)));
+          detectedPrices = prices;
+          log(`${stepLabel} paywall detected, stop.`);
+          paywallOffers = await extractPaywallOffers(page).catch((error: Error) => {
+            log(`${stepLabel} offer extraction failed: ${error.message}`);
+            return [];
+          });
+          await writeJsonFile(`${paths.funnelDir}/paywall.json`, {
+            url: page.url(),
+            step,
+            screenshot: fileName,
+            offers: paywallOffers,
+          });
           reachedPaywall = true;
-          await logger.step(step, classification.type, stepMessages);
+          recorder.end({
+            step,
+            screenType: classification.type,
+            screenKey: stepRecord.screenKey,
+            headline: stepRecord.headline,
+            answer: null,
+          });
+          await stop(step, "paywall", null, { prices, offers: paywallOffers.length });
           break;
         }
 
-        // Anti-loop: check DOM + URL snapshot
-        const domHash = await getStableDomSnapshot(page);
-        if (domHash === previousHash) {
+        // Anti-loop: compare the screen fingerprint with the previous step
+        const fingerprint = await getScreenFingerprint(page);
+        const similarity = previousFingerprint ? fingerprintSimilarity(previousFingerprint, fingerprint) : null;
+        if (similarity !== null && similarity >= settings.loopSimilarity) {
           sameHashCount += 1;
         } else {
           sameHashCount = 1;
         }
-        previousHash = domHash;
+        previousFingerprint = fingerprint;
+        stepRecord.fingerprint = { hash: fingerprint.hash, tokens: fingerprint.tokens.length, similarity };
 
         // Шаг 8: email stuck recovery — press Enter + wait, then continue to next iteration
         if (classification.type === "email" && sameHashCount >= 3) {
           await page.keyboard.press("Enter").catch(() => undefined);
-          stepMessages.push("Email screen looked stuck. Pressed Enter rescue.");
           await page.waitForTimeout(2_000);
-          const rescueHash = await getStableDomSnapshot(page);
-          if (rescueHash !== domHash) {
+          const rescueFingerprint = await getScreenFingerprint(page);
+          const recovered = !isSameScreen(fingerprint, rescueFingerprint, settings.loopSimilarity);
+          if (recovered) {
             sameHashCount = 1;
-            previousHash = rescueHash;
+            previousFingerprint = rescueFingerprint;
           }
+          await emit("rescue", step, page.url(), { kind: "email_enter", recovered, detail: null });
         }
 
-        // Шаг 2: soften anti-loop — stop only when BOTH hash limit AND noAction reached
-        if (sameHashCount >= RUN_CONFIG.sameDomHashLimit && noActionCount >= 2) {
+        // Шаг 2: soften anti-loop — stop only when BOTH the same-screen limit AND noAction reached
+        if (sameHashCount >= settings.sameDomHashLimit && noActionCount >= 2) {
           // Шаг 4: forced Enter CTA rescue before final loop-stop (only if step >= 8)
           if (step >= 8) {
             await page.keyboard.press("Enter").catch(() => undefined);
-            stepMessages.push("DOM repeated + no action. Pressed Enter rescue before final loop stop.");
             await page.waitForTimeout(2_000);
-            const rescueHash = await getStableDomSnapshot(page);
-            if (rescueHash !== domHash) {
+            const rescueFingerprint = await getScreenFingerprint(page);
+            const recovered = !isSameScreen(fingerprint, rescueFingerprint, settings.loopSimilarity);
+            await emit("rescue", step, page.url(), { kind: "loop_enter", recovered, detail: null });
+            if (recovered) {
               sameHashCount = 1;
-              previousHash = rescueHash;
-              await logger.step(step, classification.type, stepMessages);
+              previousFingerprint = rescueFingerprint;
               continue;
             }
           }
-          console.log(`${stepLabel} repeated DOM hash + no action, stop.`);
-          stepMessages.push(
-            `DOM+URL hash repeated ${sameHashCount} times with no action. Stopping to avoid loop.`,
-          );
-          await logger.step(step, classification.type, stepMessages);
+          log(`${stepLabel} same screen repeated + no action, stop.`);
+          await stop(step, "loop", `Same screen (similarity ≥ ${settings.loopSimilarity}) repeated ${sameHashCount} times with no action`);
           break;
         }
 
         const urlBeforeAction = page.url();
 
-        let actionResult = { performed: false, messages: [] as string[] };
+        await emit("action_attempted", step, urlBeforeAction, {
+          screenType: classification.type,
+          decision: answers.length,
+        });
+        let actionResult: ActionResult = { performed: false, messages: [] };
+        let actionErrorMessage: string | null = null;
+        tracking.enterAction(step);
+        recorder.begin();
         try {
-          actionResult = await handleStepAction(page, classification.type);
+          if (replay) {
+            const expected = replay.next();
+            if (!expected) {
+              await stop(step, "replay_end", `all ${replay.total} recorded steps replayed`);
+              break;
+            }
+            const sameScreen = expected.screenType === classification.type && expected.screenKey === stepRecord.screenKey;
+            const replayed = await replayStep(page, expected);
+            actionResult = {
+              performed: replayed.performed,
+              messages: [
+                ...(sameScreen ? [] : [`Screen differs from recording: expected ${expected.screenType} "${expected.headline}".`]),
+                ...replayed.messages,
+              ],
+              answer: expected.answer ?? undefined,
+            };
+            divergence = replayed.divergence;
+          } else {
+            actionResult = await handleStepAction(page, classification.type, {
+              step,
+              decision: answers.length,
+              answerStrategy,
+              persona,
+              rules: stepRules,
+              loopSimilarity: settings.loopSimilarity,
+            });
+          }
         } catch (actionError) {
           const msg = actionError instanceof Error ? actionError.message : String(actionError);
           if (msg.includes("closed") || msg.includes("Target closed") || msg.includes("has been closed")) {
-            stepMessages.push(`Page closed during action at step ${step}. Stopping.`);
-            await logger.step(step, classification.type, stepMessages);
+            await stop(step, "page_closed", `during action at step ${step}`);
             break;
           }
-          stepMessages.push(`Action error: ${msg}`);
+          actionErrorMessage = msg;
+        }
+
+        stepRecord.actions = actionResult.messages;
+        if (actionResult.answer) {
+          answers.push(actionResult.answer);
+          stepRecord.answer = actionResult.answer.text;
         }
+        await emit("action_result", step, page.url(), {
+          performed: actionResult.performed,
+          messages: actionResult.messages,
+          answer: actionResult.answer ?? null,
+          error: actionErrorMessage,
+        });
+        recorder.end({
+          step,
+          screenType: classification.type,
+          screenKey: stepRecord.screenKey,
+          headline: stepRecord.headline,
+          answer: actionResult.answer ?? null,
+        });
+        // Whatever fires from here on is loaded for the next screen
+        tracking.enterScreen(step + 1);
 
-        stepMessages.push(...actionResult.messages);
+        if (divergence) {
+          log(`${stepLabel} replay diverged: ${divergence}`);
+          await stop(step, "diverged", divergence);
+          break;
+        }
 
         if (!actionResult.performed) {
           noActionCount += 1;
           if (noActionCount >= 2) {
-            console.log(`${stepLabel} no action twice, stop.`);
-            stepMessages.push("No action performed 2 times in a row. Stopping.");
-            await logger.step(step, classification.type, stepMessages);
+            log(`${stepLabel} no action twice, stop.`);
+            await stop(step, "no_action", null);
             break;
           }
-          console.log(`${stepLabel} no action, retry next step.`);
-          stepMessages.push("No action performed. Will retry next step.");
-          await logger.step(step, classification.type, stepMessages);
+          log(`${stepLabel} no action, retry next step.`);
           continue;
         }
 
         noActionCount = 0;
-        console.log(`${stepLabel} action done, waiting transition...`);
+        log(`${stepLabel} action done, waiting transition...`);
 
         await waitForPageTransition(page, urlBeforeAction);
-
-        await logger.step(step, classification.type, stepMessages);
+        await emit("transition", step, page.url(), {
+          from: urlBeforeAction,
+          to: page.url(),
+          urlChanged: page.url() !== urlBeforeAction,
+        });
       } catch (stepError) {
         const msg = stepError instanceof Error ? stepError.message : String(stepError);
         if (msg.includes("closed") || msg.includes("Target closed") || msg.includes("has been closed")) {
-          console.log(`${stepLabel} closed during step, stop.`);
-          stepMessages.push(`Page closed during step ${step}. Stopping.`);
-          await logger.event(stepMessages.join(" | "));
+          log(`${stepLabel} closed during step, stop.`);
+          await stop(step, "page_closed", `during step ${step}`);
           break;
         }
-        console.log(`${stepLabel} error: ${msg}`);
-        stepMessages.push(`Step ${step} error: ${msg}`);
-        await logger.event(stepMessages.join(" | "));
+        log(`${stepLabel} error: ${msg}`);
+        await emit("error", step, page.isClosed() ? url : page.url(), { message: msg });
       }
     }
+
+    if (!stopReason) await stop(totalSteps, "step_limit", `${totalSteps} steps`);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    await logger.event(`Fatal error: ${message}`);
+    if (!stopReason) await stop(null, "fatal", message);
   } finally {
+    const executionTimeSeconds = Number(((Date.now() - startedAt) / 1000).toFixed(1));
+    const retain = options.artifacts ? shouldRetain(options.artifacts.retain, stopReason, reachedPaywall) : false;
+    const artifacts = await finishArtifacts(context, page, options.artifacts, paths, retain, log);
+    if (artifacts.length > 0) log(`  -> Kept ${artifacts.join(", ")}`);
+    for (const stepRecord of steps) stepRecord.tracking = trackingLabels(tracking.eventsFor(stepRecord.step));
+    const trackingEvents = tracking.all();
+    await writeTrackingReport(paths.funnelDir, buildTrackingReport(url, steps, trackingEvents));
+    await writeReplayFile(
+      paths.funnelDir,
+      recorder.toFile({ url, persona: persona.id, device, emulation: options.emulation ?? null }),
+    );
+    if (trackingEvents.length > 0) log(`  -> ${trackingEvents.length} tracking events, saved tracking.json`);
+    await snapshots.writeManifest({ url, device });
     const summary: FunnelRunSummary = {
       url,
+      funnelDir: paths.funnelDir,
       totalSteps,
       detectedTypes: Array.from(detectedTypes),
       reachedPaywall,
-      executionTimeSeconds: Number(((Date.now() - startedAt) / 1000).toFixed(1)),
+      detectedPrices,
+      paywallOffers,
+      executionTimeSeconds,
+      stopReason,
+      artifacts,
+      ...(replay ? { replay: { source: replay.source, replayed: replay.replayed, total: replay.total, divergence } } : {}),
+      persona: persona.id,
+      emulation: options.emulation ?? null,
+      device,
+      answerStrategy: answerStrategy.name,
+      answers,
+      steps,
     };
     await writeJsonFile(`${paths.funnelDir}/summary.json`, summary);
-    await context.close();
-    await browser.close();
+    await writeFunnelGraph(paths.funnelDir, buildFunnelGraph(summary));
+    await writeFunnelScript(paths.funnelDir, buildFunnelScript(summary));
+    if (ownsBrowser) await browser.close();
     return summary;
   }
 }
+
+/**
+ * Summary for a run that threw outside its own error handling (results dir, browser context),
+ * so the batch reports it as "fatal" and goes on with the other funnels.
+ */
+export async function recordFailedRun(url: string, options: RunOptions, error: unknown): Promise<FunnelRunSummary> {
+  const summary: FunnelRunSummary = {
+    url,
+    funnelDir: funnelDirFor(url, options.variant),
+    totalSteps: 0,
+    detectedTypes: [],
+    reachedPaywall: false,
+    detectedPrices: [],
+    paywallOffers: [],
+    executionTimeSeconds: 0,
+    stopReason: "fatal",
+    error: error instanceof Error ? error.message : String(error),
+    persona: (options.persona ?? DEFAULT_PERSONA).id,
+    emulation: options.emulation ?? null,
+    device: options.device ?? defaultDevice(),
+    answerStrategy: (options.answerStrategy ?? firstStrategy()).name,
+    answers: [],
+    steps: [],
+  };
+  await ensureDir(summary.funnelDir)
+    .then(() => writeJsonFile(`${summary.funnelDir}/summary.json`, summary))
+    .catch(() => undefined);
+  return summary;
+}
@@ -0,0 +1,121 @@
+import type { Page } from "playwright";
+import { getOptionLikeButtonTexts } from "../classifier/signals";
+import { CONTINUE_TEXTS, getOptionLabel, OPTION_INPUT_SELECTOR } from "../navigator/stepHandler";
+
+export type ScriptInput = {
+  /** label[for], wrapping label, aria-label or placeholder — whatever the page shows the user. */
+  label: string;
+  type: string;
+  placeholder: string | null;
+};
+
+/** What the user reads and can answer on one screen. */
+export type ScreenScript = {
+  headline: string;
+  /** Other visible copy (subtitles, paragraphs, list items), in page order. */
+  copy: string[];
+  /** Answer options: radio/checkbox labels, else option-like buttons. */
+  options: string[];
+  optionKind: "choice" | "button" | null;
+  inputs: ScriptInput[];
+  ctas: string[];
+};
+
+const MAX_COPY_LINES = 12;
+const MAX_OPTIONS = 20;
+
+const clean = (text: string) => text.replace(/\s+/g, " ").trim();
+
+function isCta(text: string): boolean {
+  const lower = text.toLowerCase();
+  return CONTINUE_TEXTS.some((cta) => lower === cta || lower.startsWith(`${cta} `));
+}
+
+async function readChoiceOptions(page: Page): Promise<string[]> {
+  const inputs = page.locator(OPTION_INPUT_SELECTOR);
+  const count = Math.min(await inputs.count().catch(() => 0), MAX_OPTIONS);
+  const labels: string[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const label = clean(await getOptionLabel(inputs.nth(i)));
+    if (label && !labels.includes(label)) labels.push(label);
+  }
+  return labels;
+}
+
+async function readInputs(page: Page): Promise<ScriptInput[]> {
+  return page
+    .evaluate(() => {
+      const fields = Array.from(
+        document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>("input, textarea, select"),
+      );
+      return fields
+        .filter((el) => {
+          const type = (el.getAttribute("type") || "").toLowerCase();
+          if (["hidden", "radio", "checkbox", "submit", "button", "image", "reset"].includes(type)) return false;
+          const rect = el.getBoundingClientRect();
+          return rect.width > 0 && rect.height > 0;
+        })
+        .map((el) => {
+          const byFor = el.id ? document.querySelector<HTMLElement>(`label[for="${el.id}"]`) : null;
+          const wrapping = el.closest("label");
+          const placeholder = el.getAttribute("placeholder");
+          const label =
+            byFor?.innerText || wrapping?.innerText || el.getAttribute("aria-label") || placeholder || el.getAttribute("name") || "";
+          const type = el.tagName === "INPUT" ? el.getAttribute("type") || "text" : el.tagName.toLowerCase();
+          return { label: label.replace(/\s+/g, " ").trim(), type, placeholder };
+        });
+    })
+    .catch(() => [] as ScriptInput[]);
+}
+
+/** Visible button / link / submit texts that read like a CTA (same word list as clickContinue). */
+async function readCtas(page: Page): Promise<string[]> {
+  const texts = await page
+    .locator("button:visible, [role='button']:visible, a:visible, input[type='submit']:visible")
+    .evaluateAll((elements) =>
+      elements.map((el) => (el instanceof HTMLInputElement ? el.value : (el as HTMLElement).innerText) || ""),
+    )
+    .catch(() => [] as string[]);
+  return Array.from(new Set(texts.map(clean).filter((text) => text.length > 0 && text.length < 60 && isCta(text))));
+}
+
+async function readCopy(page: Page, exclude: Set<string>): Promise<string[]> {
+  const lines = await page
+    .evaluate(() => {
+      const elements = Array.from(document.querySelectorAll<HTMLElement>("h1, h2, h3, h4, p, li, [class*='subtitle' i]"));
+      return elements
+        .filter((el) => {
+          const rect = el.getBoundingClientRect();
+          return rect.width > 0 && rect.height > 0 && !el.closest("button, label, a, [role='button']");
+        })
+        .map((el) => el.innerText);
+    })
+    .catch(() => [] as string[]);
+  const copy: string[] = [];
+  for (const line of lines.map(clean)) {
+    if (line.length < 2 || line.length > 400 || exclude.has(line) || copy.includes(line)) continue;
+    copy.push(line);
+    if (copy.length >= MAX_COPY_LINES) break;
+  }
+  return copy;
+}
+
+/**
+ * Read the screen's text the way a person transcribing it would: headline, copy, options, input labels, CTAs.
+ */
+export async function extractScreenScript(page: Page, headline: string): Promise<ScreenScript> {
+  const choices = await readChoiceOptions(page);
+  const ctas = await readCtas(page);
+  const buttons = choices.length > 0 ? [] : (await getOptionLikeButtonTexts(page)).map(clean).filter((text) => !ctas.includes(text));
+  const options = choices.length > 0 ? choices : Array.from(new Set(buttons));
+  const inputs = await readInputs(page);
+  const exclude = new Set([headline, ...options, ...ctas]);
+  return {
+    headline,
+    copy: await readCopy(page, exclude),
+    options,
+    optionKind: choices.length > 0 ? "choice" : options.length > 0 ? "button" : null,
+    inputs,
+    ctas,
+  };
+}
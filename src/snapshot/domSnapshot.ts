@@ -0,0 +1,72 @@
+import type { Page } from "playwright";
+
+export type DomSnapshot = {
+  url: string;
+  viewport: { width: number; height: number } | null;
+  /** Self-contained HTML: scripts dropped, readable CSS inlined, form state and visibility baked in. */
+  html: string;
+  /** Playwright ARIA snapshot of <body> (YAML), empty if it could not be taken. */
+  aria: string;
+};
+
+/** Attribute set on every element that was not visible when the snapshot was taken. */
+export const HIDDEN_ATTRIBUTE = "data-fr-hidden";
+
+/**
+ * Serialize the page so it renders (and classifies) the same offline:
+ * - elements invisible in the live page get data-fr-hidden, which a snapshot rule turns into visibility:hidden;
+ * - input values, checked and selected states become attributes;
+ * - CSS readable through the CSSOM (including rules inserted by CSS-in-JS) is inlined into one <style>.
+ */
+async function serializeDom(page: Page): Promise<string> {
+  return page.evaluate((hiddenAttribute) => {
+    const root = document.documentElement.cloneNode(true) as HTMLElement;
+    const originals = Array.from(document.documentElement.querySelectorAll("*"));
+    const clones = Array.from(root.querySelectorAll("*"));
+    originals.forEach((el, index) => {
+      const clone = clones[index];
+      if (!clone) return;
+      const style = window.getComputedStyle(el);
+      const rendered = el instanceof HTMLElement ? el.getClientRects().length > 0 : true;
+      if (!rendered || style.visibility === "hidden" || style.display === "none") clone.setAttribute(hiddenAttribute, "");
+      if (el instanceof HTMLInputElement) {
+        clone.setAttribute("value", el.value);
+        if (el.checked) clone.setAttribute("checked", "");
+        else clone.removeAttribute("checked");
+      } else if (el instanceof HTMLTextAreaElement) {
+        clone.textContent = el.value;
+      } else if (el instanceof HTMLOptionElement) {
+        if (el.selected) clone.setAttribute("selected", "");
+        else clone.removeAttribute("selected");
+      }
+    });
+
+    const css: string[] = [];
+    const inlinedHrefs = new Set<string>();
+    for (const sheet of Array.from(document.styleSheets)) {
+      try {
+        css.push(Array.from(sheet.cssRules, (rule) => rule.cssText).join("\n"));
+        if (sheet.href) inlinedHrefs.add(sheet.href);
+      } catch {
+        // Cross-origin sheet without CORS: keep its <link>, it is simply missing offline
+      }
+    }
+    root.querySelectorAll("script, style").forEach((el) => el.remove());
+    root.querySelectorAll("link[rel~='stylesheet']").forEach((el) => {
+      if (inlinedHrefs.has((el as HTMLLinkElement).href)) el.remove();
+    });
+    const inlined = document.createElement("style");
+    inlined.textContent = `${css.join("\n")}\n[${hiddenAttribute}] { visibility: hidden !important; }`;
+    (root.querySelector("head") ?? root).appendChild(inlined);
+    return `<!DOCTYPE html>\n${root.outerHTML}`;
+  }, HIDDEN_ATTRIBUTE);
+}
+
+export async function captureDomSnapshot(page: Page): Promise<DomSnapshot> {
+  return {
+    url: page.url(),
+    viewport: page.viewportSize(),
+    html: await serializeDom(page),
+    aria: await page.locator("body").ariaSnapshot({ timeout: 5_000 }).catch(() => ""),
+  };
+}
@@ -0,0 +1,31 @@
+import { access } from "node:fs/promises";
+import { join, normalize, relative } from "node:path";
+import type { BrowserContext, Page } from "playwright";
+
+/**
+ * Open `html` as if it were served from `url`, with the network cut off. Other requests get files
+ * from `assetsDir` when they exist there (saved CSS/images); everything else is aborted.
+ */
+export async function openOfflinePage(context: BrowserContext, url: string, html: string, assetsDir?: string): Promise<Page> {
+  const page = await context.newPage();
+  // Requests never carry the #fragment, archived SPA URLs often do
+  const documentUrl = url.replace(/#.*$/, "");
+  await page.route("**/*", async (route) => {
+    const requestUrl = route.request().url();
+    if (requestUrl === documentUrl) {
+      await route.fulfill({ body: html, contentType: "text/html; charset=utf-8" });
+      return;
+    }
+    if (assetsDir) {
+      const local = normalize(join(assetsDir, decodeURIComponent(new URL(requestUrl).pathname)));
+      const insideAssets = !relative(assetsDir, local).startsWith("..");
+      if (insideAssets && (await access(local).then(() => true, () => false))) {
+        await route.fulfill({ path: local });
+        return;
+      }
+    }
+    await route.abort();
+  });
+  await page.goto(url, { waitUntil: "load" });
+  return page;
+}
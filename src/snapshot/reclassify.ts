@@ -0,0 +1,145 @@
+import { copyFile, rm } from "node:fs/promises";
+import { relative } from "node:path";
+import { classifyScreen, SCREEN_TYPES, type ScreenType } from "../classifier/classifyScreen";
+import { prepareStepRules, type FunnelRule } from "../rules/funnelRules";
+import { deviceContextOptions } from "../runner/device";
+import type { BrowserPool } from "../runner/pool";
+import type { FunnelRunSummary } from "../runner/runFunnel";
+import { buildClassifiedFilename, ensureDir, sanitize } from "../utils/fileManager";
+import { openOfflinePage } from "./offlinePage";
+import { loadSnapshotManifest, readSnapshotFile } from "./snapshotArchive";
+
+export type ReclassifiedStep = {
+  step: number;
+  screenshot: string;
+  before: { type: ScreenType; reason: string };
+  /** Null when the snapshot could not be opened or classified (see error). */
+  after: { type: ScreenType; reason: string; confidence: number } | null;
+  error?: string;
+};
+
+export type ReclassifiedRun = {
+  funnelDir: string;
+  /** Null when the run has no snapshots/ archive (recorded before it existed). */
+  steps: ReclassifiedStep[] | null;
+};
+
+export function changedSteps(run: ReclassifiedRun): ReclassifiedStep[] {
+  return (run.steps ?? []).filter((step) => step.after && step.before.type !== step.after.type);
+}
+
+export function failedSteps(run: ReclassifiedRun): ReclassifiedStep[] {
+  return (run.steps ?? []).filter((step) => !step.after);
+}
+
+/**
+ * Run every archived step of one run through the current classifyScreen, offline,
+ * on the device the run was recorded with.
+ */
+export async function reclassifyRun(browsers: BrowserPool, funnelDir: string, rules: FunnelRule[]): Promise<ReclassifiedRun> {
+  const manifest = await loadSnapshotManifest(funnelDir).catch(() => null);
+  if (!manifest) return { funnelDir, steps: null };
+
+  const context = await (await browsers.get(manifest.device)).newContext(deviceContextOptions(manifest.device));
+  const steps: ReclassifiedStep[] = [];
+  try {
+    for (const entry of manifest.entries) {
+      const before = { type: entry.type, reason: entry.reason };
+      // One unreadable or unopenable snapshot is reported on its step, not fatal for the command
+      try {
+        const page = await openOfflinePage(context, entry.url, await readSnapshotFile(funnelDir, entry.dom));
+        try {
+          if (entry.viewport) await page.setViewportSize(entry.viewport);
+          const stepRules = rules.length > 0 ? await prepareStepRules(page, rules, { wait: false }) : null;
+          const classification = await classifyScreen(page, entry.step, stepRules);
+          steps.push({
+            step: entry.step,
+            screenshot: entry.screenshot,
+            before,
+            after: { type: classification.type, reason: classification.reason, confidence: classification.confidence },
+          });
+        } finally {
+          await page.close();
+        }
+      } catch (error) {
+        steps.push({
+          step: entry.step,
+          screenshot: entry.screenshot,
+          before,
+          after: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    await context.close();
+  }
+  return { funnelDir, steps };
+}
+
+/** Same slug runFunnel used for _classified file names: "<funnel>" or "<funnel>_<variant>". */
+function slugForFunnelDir(root: string, funnelDir: string): string {
+  const [base, ...variant] = relative(root, funnelDir).split("/");
+  return variant.length > 0 ? `${base}_${sanitize(variant.join("/"))}` : base;
+}
+
+/**
+ * Recreate <root>/_classified from the new labels; steps without a snapshot keep their recorded type.
+ * Returns the number of screenshots copied.
+ */
+export async function rebuildClassified(root: string, summaries: FunnelRunSummary[], runs: ReclassifiedRun[]): Promise<number> {
+  const classifiedDir = `${root}/_classified`;
+  await rm(classifiedDir, { recursive: true, force: true });
+  await Promise.all(SCREEN_TYPES.map((type) => ensureDir(`${classifiedDir}/${type}`)));
+  let copied = 0;
+  for (const summary of summaries) {
+    const run = runs.find((item) => item.funnelDir === summary.funnelDir);
+    const slug = slugForFunnelDir(root, summary.funnelDir);
+    for (const step of summary.steps) {
+      const type = run?.steps?.find((item) => item.step === step.step)?.after?.type ?? step.type;
+      const target = `${classifiedDir}/${type}/${buildClassifiedFilename(slug, step.step, type)}`;
+      // A missing screenshot (deleted by hand, partial copy) just leaves a gap
+      await copyFile(`${summary.funnelDir}/${step.screenshot}`, target).then(
+        () => (copied += 1),
+        () => undefined,
+      );
+    }
+  }
+  return copied;
+}
+
+export function formatReclassification(root: string, runs: ReclassifiedRun[]): string {
+  const lines: string[] = [];
+  let total = 0;
+  let changed = 0;
+  let failed = 0;
+  for (const run of runs) {
+    if (!run.steps) continue;
+    const changes = changedSteps(run);
+    const failures = failedSteps(run);
+    total += run.steps.length;
+    changed += changes.length;
+    failed += failures.length;
+    if (changes.length === 0 && failures.length === 0) continue;
+    lines.push(`${relative(root, run.funnelDir) || run.funnelDir}: ${changes.length} of ${run.steps.length} step(s) changed`);
+    for (const step of changes) {
+      const after = step.after!;
+      lines.push(
+        `  STEP ${String(step.step).padStart(2, "0")} ${step.before.type} → ${after.type} (${step.screenshot})`,
+        `    before: ${step.before.reason}`,
+        `    after:  ${after.reason} (confidence ${after.confidence})`,
+      );
+    }
+    for (const step of failures) {
+      lines.push(`  STEP ${String(step.step).padStart(2, "0")} FAILED (${step.screenshot}): ${step.error}`);
+    }
+  }
+  const archived = runs.filter((run) => run.steps);
+  const skipped = runs.length - archived.length;
+  lines.push(
+    `${lines.length > 0 ? "\n" : ""}Reclassified ${total} step(s) in ${archived.length} run(s): ${changed} changed.` +
+      (failed > 0 ? ` ${failed} step(s) failed.` : "") +
+      (skipped > 0 ? ` ${skipped} run(s) without snapshots/ skipped.` : ""),
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,84 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import type { ScreenType } from "../classifier/classifyScreen";
+import type { DeviceSettings } from "../runner/device";
+import { ensureDir, writeJsonFile } from "../utils/fileManager";
+import type { DomSnapshot } from "./domSnapshot";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const SNAPSHOTS_DIR = "snapshots";
+
+/** One archived screen; file names are relative to <funnel>/snapshots/. */
+export type SnapshotEntry = {
+  step: number;
+  /** Classification at capture time, for offline comparison. */
+  type: ScreenType;
+  reason: string;
+  url: string;
+  viewport: { width: number; height: number } | null;
+  /** Screenshot next to the archive, relative to the funnel dir. */
+  screenshot: string;
+  /** Gzipped serialized DOM. */
+  dom: string;
+  /** Gzipped ARIA snapshot (YAML). */
+  aria: string;
+};
+
+/** snapshots/manifest.json */
+export type SnapshotManifest = {
+  url: string;
+  device: DeviceSettings;
+  capturedAt: string;
+  entries: SnapshotEntry[];
+};
+
+/**
+ * Per-funnel archive of step snapshots: gzipped files are written as the run goes,
+ * the manifest once at the end (see runFunnel's finally block).
+ */
+export class SnapshotArchive {
+  private readonly entries: SnapshotEntry[] = [];
+  readonly dir: string;
+
+  constructor(funnelDir: string) {
+    this.dir = `${funnelDir}/${SNAPSHOTS_DIR}`;
+  }
+
+  async add(step: Pick<SnapshotEntry, "step" | "type" | "reason" | "screenshot">, snapshot: DomSnapshot): Promise<SnapshotEntry> {
+    await ensureDir(this.dir);
+    const base = `step-${String(step.step).padStart(2, "0")}`;
+    const entry: SnapshotEntry = {
+      ...step,
+      url: snapshot.url,
+      viewport: snapshot.viewport,
+      dom: `${base}.html.gz`,
+      aria: `${base}.aria.yml.gz`,
+    };
+    await writeFile(`${this.dir}/${entry.dom}`, await gzipAsync(snapshot.html));
+    await writeFile(`${this.dir}/${entry.aria}`, await gzipAsync(snapshot.aria));
+    this.entries.push(entry);
+    return entry;
+  }
+
+  async writeManifest(meta: Pick<SnapshotManifest, "url" | "device">): Promise<void> {
+    if (this.entries.length === 0) return;
+    const manifest: SnapshotManifest = { ...meta, capturedAt: new Date().toISOString(), entries: this.entries };
+    await writeJsonFile(`${this.dir}/manifest.json`, manifest);
+  }
+}
+
+export async function loadSnapshotManifest(funnelDir: string): Promise<SnapshotManifest> {
+  const path = `${funnelDir}/${SNAPSHOTS_DIR}/manifest.json`;
+  const text = await readFile(path, "utf8").catch(() => {
+    throw new Error(`No snapshot archive: ${path} not found.`);
+  });
+  return JSON.parse(text) as SnapshotManifest;
+}
+
+/** Read one gzipped archive file (entry.dom or entry.aria) back as text. */
+export async function readSnapshotFile(funnelDir: string, name: string): Promise<string> {
+  return (await gunzipAsync(await readFile(`${funnelDir}/${SNAPSHOTS_DIR}/${name}`))).toString("utf8");
+}
@@ -0,0 +1,208 @@
+export type TrackerName = "meta" | "ga4" | "amplitude" | "mixpanel" | "tiktok" | "snap" | "segment";
+
+export type TrackingHit = {
+  tracker: TrackerName;
+  event: string;
+  /** Pixel / measurement / project id when the request carries one. */
+  id: string | null;
+  /** Event parameters worth comparing between funnels (custom data, properties), flattened to strings. */
+  params: Record<string, string>;
+};
+
+/** What the recognizers need from a Playwright request. */
+export type OutgoingRequest = {
+  url: string;
+  postData: string | null;
+};
+
+const MAX_PARAMS = 20;
+const MAX_VALUE_LENGTH = 120;
+
+type Recognizer = {
+  tracker: TrackerName;
+  matches: (url: URL) => boolean;
+  parse: (url: URL, body: string | null) => Array<Omit<TrackingHit, "tracker">>;
+};
+
+function clip(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+/** Nested properties → { "a.b": "1" }, capped at MAX_PARAMS keys. */
+function flatten(value: unknown, prefix = "", into: Record<string, string> = {}): Record<string, string> {
+  if (value === null || value === undefined) return into;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    if (Object.keys(into).length < MAX_PARAMS && prefix) into[prefix] = clip(value);
+    return into;
+  }
+  for (const [key, item] of Object.entries(value)) flatten(item, prefix ? `${prefix}.${key}` : key, into);
+  return into;
+}
+
+/** Query string and, for form-encoded bodies, the body: one URLSearchParams per line (GA4 batches). */
+function formParams(url: URL, body: string | null): URLSearchParams[] {
+  const lines = body && !body.trimStart().startsWith("{") && !body.trimStart().startsWith("[") ? body.split("\n") : [];
+  const bodies = lines.filter((line) => line.includes("="));
+  if (bodies.length === 0) return [url.searchParams];
+  return bodies.map((line) => {
+    const merged = new URLSearchParams(url.searchParams);
+    new URLSearchParams(line).forEach((value, key) => merged.set(key, value));
+    return merged;
+  });
+}
+
+/** Params whose keys match `pattern`, with the matched prefix removed (cd[value] → value, ep.step → step). */
+function pickParams(params: URLSearchParams, pattern: RegExp): Record<string, string> {
+  const picked: Record<string, string> = {};
+  params.forEach((value, key) => {
+    const match = key.match(pattern);
+    if (match && Object.keys(picked).length < MAX_PARAMS) picked[match[1]] = clip(value);
+  });
+  return picked;
+}
+
+function parseJson(text: string | null): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === null || value === undefined ? [] : [value];
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" || typeof value === "number" ? String(value) : null;
+}
+
+const hostIs = (url: URL, ...hosts: string[]) =>
+  hosts.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+
+const RECOGNIZERS: Recognizer[] = [
+  {
+    // https://www.facebook.com/tr?id=…&ev=Lead&cd[value]=…
+    tracker: "meta",
+    matches: (url) => hostIs(url, "facebook.com", "facebook.net") && /^\/tr\/?$/.test(url.pathname),
+    parse: (url, body) =>
+      formParams(url, body)
+        .filter((params) => params.get("ev"))
+        .map((params) => ({ event: params.get("ev")!, id: params.get("id"), params: pickParams(params, /^cd\[(.+)\]$/) })),
+  },
+  {
+    // https://region1.google-analytics.com/g/collect?tid=G-…&en=page_view&ep.step=3
+    tracker: "ga4",
+    matches: (url) =>
+      hostIs(url, "google-analytics.com", "analytics.google.com", "googletagmanager.com") && url.pathname.endsWith("/g/collect"),
+    parse: (url, body) =>
+      formParams(url, body)
+        .filter((params) => params.get("en"))
+        .map((params) => ({ event: params.get("en")!, id: params.get("tid"), params: pickParams(params, /^epn?\.(.+)$/) })),
+  },
+  {
+    // POST https://api2.amplitude.com/2/httpapi {"api_key", "events": [{ "event_type", "event_properties" }]}
+    tracker: "amplitude",
+    matches: (url) => hostIs(url, "amplitude.com") && /^\/(2\/httpapi|batch)?\/?$/.test(url.pathname),
+    parse: (url, body) => {
+      const json = parseJson(body);
+      // Legacy SDK: form-encoded e=<JSON events>&client=<api key>
+      const form = json ? null : new URLSearchParams(body ?? "");
+      const payload = asRecord(json);
+      const events = json ? asList(payload.events) : asList(parseJson(form?.get("e") ?? null));
+      const id = stringOrNull(payload.api_key) ?? form?.get("client") ?? null;
+      return events.map(asRecord).map((event) => ({
+        event: stringOrNull(event.event_type) ?? "unknown",
+        id,
+        params: flatten(event.event_properties),
+      }));
+    },
+  },
+  {
+    // POST https://api-js.mixpanel.com/track/ data=[{"event", "properties": { "token", … }}] (JSON or base64)
+    tracker: "mixpanel",
+    matches: (url) => hostIs(url, "mixpanel.com") && /^\/track\/?$/.test(url.pathname),
+    parse: (url, body) => {
+      const raw = new URLSearchParams(body ?? "").get("data") ?? url.searchParams.get("data") ?? body;
+      let decoded = parseJson(raw);
+      if (!decoded && raw) decoded = parseJson(Buffer.from(raw.replace(/ /g, "+"), "base64").toString("utf8"));
+      return asList(decoded)
+        .map(asRecord)
+        .map((event) => {
+          const { token, ...properties } = asRecord(event.properties);
+          const custom = Object.fromEntries(Object.entries(properties).filter(([key]) => !key.startsWith("$") && !key.startsWith("mp_")));
+          return { event: stringOrNull(event.event) ?? "unknown", id: stringOrNull(token), params: flatten(custom) };
+        });
+    },
+  },
+  {
+    // POST https://analytics.tiktok.com/api/v2/pixel {"event", "context": { "pixel": { "code" } }, "properties"}
+    tracker: "tiktok",
+    matches: (url) => hostIs(url, "tiktok.com") && url.pathname.startsWith("/api/v2/pixel"),
+    parse: (url, body) => {
+      const payload = asRecord(parseJson(body));
+      const events = payload.batch ? asList(payload.batch) : [payload];
+      return events
+        .map(asRecord)
+        .filter((event) => event.event)
+        .map((event) => ({
+          event: String(event.event),
+          id: stringOrNull(asRecord(asRecord(event.context).pixel).code) ?? stringOrNull(event.pixel_code),
+          params: flatten(event.properties),
+        }));
+    },
+  },
+  {
+    // https://tr.snapchat.com/p?pid=…&ev=PAGE_VIEW (query or form body)
+    tracker: "snap",
+    matches: (url) => hostIs(url, "tr.snapchat.com", "tr-shadow.snapchat.com"),
+    parse: (url, body) =>
+      formParams(url, body)
+        .filter((params) => params.get("ev"))
+        .map((params) => ({
+          event: params.get("ev")!,
+          id: params.get("pid"),
+          params: pickParams(params, /^(price|currency|item_ids|item_category|number_items|sign_up_method|description)$/),
+        })),
+  },
+  {
+    // POST https://api.segment.io/v1/t {"type": "track", "event", "properties"} — /p page, /i identify, /batch
+    tracker: "segment",
+    matches: (url) => hostIs(url, "segment.io", "segment.com") && url.pathname.startsWith("/v1/"),
+    parse: (url, body) => {
+      const payload = asRecord(parseJson(body));
+      const events = payload.batch ? asList(payload.batch) : [payload];
+      return events.map(asRecord).map((event) => ({
+        event: stringOrNull(event.event) ?? stringOrNull(event.type) ?? url.pathname.slice(4),
+        id: stringOrNull(payload.writeKey) ?? stringOrNull(event.writeKey),
+        params: flatten(event.properties),
+      }));
+    },
+  },
+];
+
+/**
+ * Tracking events carried by one outgoing request; empty for anything that is not a known analytics endpoint.
+ */
+export function recognizeTrackingRequest(request: OutgoingRequest): TrackingHit[] {
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return [];
+  }
+  const recognizer = RECOGNIZERS.find((item) => item.matches(url));
+  if (!recognizer) return [];
+  try {
+    return recognizer.parse(url, request.postData).map((hit) => ({ tracker: recognizer.tracker, ...hit }));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,109 @@
+import type { BrowserContext, Request } from "playwright";
+import type { ScreenType } from "../classifier/classifyScreen";
+import { writeJsonFile } from "../utils/fileManager";
+import { recognizeTrackingRequest, type TrackerName, type TrackingHit } from "./trackers";
+
+/**
+ * "screen" — fired while the screen was loading or shown (page views, step views);
+ * "action" — fired by the runner's click / input on that screen (answer, CTA events).
+ */
+export type TrackingPhase = "screen" | "action";
+
+export type TrackingEvent = TrackingHit & {
+  ts: string;
+  step: number;
+  phase: TrackingPhase;
+  /** Endpoint without the query string, e.g. https://www.facebook.com/tr */
+  endpoint: string;
+};
+
+export type TrackingReport = {
+  url: string;
+  /** Per tracker: ids seen and how often each event name fired. */
+  trackers: Partial<Record<TrackerName, { ids: string[]; events: Record<string, number> }>>;
+  steps: Array<{ step: number; screenType: ScreenType | null; headline: string; events: TrackingEvent[] }>;
+};
+
+/**
+ * Listens to every request of the context and attributes recognised analytics hits
+ * to the step the runner is currently on (see enterScreen / enterAction).
+ */
+export class TrackingRecorder {
+  private readonly events: TrackingEvent[] = [];
+  private step = 1;
+  private phase: TrackingPhase = "screen";
+
+  constructor(context: BrowserContext) {
+    context.on("request", (request) => this.record(request));
+  }
+
+  /** Requests from now on load or belong to screen `step`. */
+  enterScreen(step: number): void {
+    this.step = step;
+    this.phase = "screen";
+  }
+
+  /** Requests from now on are caused by the action on screen `step`. */
+  enterAction(step: number): void {
+    this.step = step;
+    this.phase = "action";
+  }
+
+  eventsFor(step: number): TrackingEvent[] {
+    return this.events.filter((event) => event.step === step);
+  }
+
+  all(): TrackingEvent[] {
+    return [...this.events];
+  }
+
+  private record(request: Request): void {
+    const hits = recognizeTrackingRequest({ url: request.url(), postData: request.postData() });
+    if (hits.length === 0) return;
+    const url = new URL(request.url());
+    const endpoint = `${url.origin}${url.pathname}`;
+    const ts = new Date().toISOString();
+    for (const hit of hits) this.events.push({ ...hit, ts, step: this.step, phase: this.phase, endpoint });
+  }
+}
+
+/** "meta:Lead" labels for StepRecord.tracking, in firing order without repeats. */
+export function trackingLabels(events: TrackingEvent[]): string[] {
+  return Array.from(new Set(events.map((event) => `${event.tracker}:${event.event}`)));
+}
+
+export function buildTrackingReport(
+  url: string,
+  steps: Array<{ step: number; type: ScreenType; headline: string }>,
+  events: TrackingEvent[],
+): TrackingReport {
+  const trackers: TrackingReport["trackers"] = {};
+  for (const event of events) {
+    const entry = (trackers[event.tracker] ??= { ids: [], events: {} });
+    if (event.id && !entry.ids.includes(event.id)) entry.ids.push(event.id);
+    entry.events[event.event] = (entry.events[event.event] ?? 0) + 1;
+  }
+  // Events after the last action belong to a screen that was never classified (run stopped first).
+  const stepNumbers = Array.from(new Set([...steps.map((step) => step.step), ...events.map((event) => event.step)])).sort(
+    (a, b) => a - b,
+  );
+  return {
+    url,
+    trackers,
+    steps: stepNumbers.map((number) => {
+      const record = steps.find((step) => step.step === number);
+      return {
+        step: number,
+        screenType: record?.type ?? null,
+        headline: record?.headline ?? "",
+        events: events.filter((event) => event.step === number),
+      };
+    }),
+  };
+}
+
+export async function writeTrackingReport(funnelDir: string, report: TrackingReport): Promise<string> {
+  const path = `${funnelDir}/tracking.json`;
+  await writeJsonFile(path, report);
+  return path;
+}
@@ -1,14 +1,33 @@
 import { copyFile, mkdir, writeFile } from "node:fs/promises";
 import { URL } from "node:url";
+import { RESULTS_DIR } from "../config";
 
-type FunnelPaths = {
+export type FunnelPaths = {
   slug: string;
   funnelDir: string;
   classifiedDir: string;
   logPath: string;
+  eventsPath: string;
+  /** Opt-in recordings (see runner/artifacts). */
+  tracePath: string;
+  harPath: string;
+  videoPath: string;
 };
 
-function sanitize(segment: string): string {
+let resultsRoot: string = RESULTS_DIR;
+
+/**
+ * Root folder for everything the runner writes. Set once from the CLI before any run starts.
+ */
+export function setResultsDir(dir: string): void {
+  resultsRoot = dir.replace(/\/+$/, "") || RESULTS_DIR;
+}
+
+export function resultsDir(): string {
+  return resultsRoot;
+}
+
+export function sanitize(segment: string): string {
   return segment.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
 }
 
@@ -24,10 +43,20 @@ export async function ensureDir(path: string): Promise<void> {
   await mkdir(path, { recursive: true });
 }
 
-export async function buildFunnelPaths(rawUrl: string): Promise<FunnelPaths> {
-  const slug = slugFromUrl(rawUrl);
-  const funnelDir = `results/${slug}`;
-  const classifiedDir = "results/_classified";
+/** Results dir of one run; see buildFunnelPaths for `variant`. */
+export function funnelDirFor(rawUrl: string, variant?: string): string {
+  const baseSlug = slugFromUrl(rawUrl);
+  return variant ? `${resultsRoot}/${baseSlug}/${variant}` : `${resultsRoot}/${baseSlug}`;
+}
+
+/**
+ * `variant` nests the run under the funnel dir (e.g. "explore/b-0-1") so repeated runs of one URL don't collide.
+ */
+export async function buildFunnelPaths(rawUrl: string, variant?: string): Promise<FunnelPaths> {
+  const baseSlug = slugFromUrl(rawUrl);
+  const slug = variant ? `${baseSlug}_${sanitize(variant)}` : baseSlug;
+  const funnelDir = funnelDirFor(rawUrl, variant);
+  const classifiedDir = `${resultsRoot}/_classified`;
   const classifiedTypes = ["question", "input", "email", "info", "paywall", "other"];
   await ensureDir(funnelDir);
   await ensureDir(classifiedDir);
@@ -37,6 +66,10 @@ export async function buildFunnelPaths(rawUrl: string): Promise<FunnelPaths> {
     funnelDir,
     classifiedDir,
     logPath: `${funnelDir}/log.txt`,
+    eventsPath: `${funnelDir}/events.jsonl`,
+    tracePath: `${funnelDir}/trace.zip`,
+    harPath: `${funnelDir}/network.har`,
+    videoPath: `${funnelDir}/video.webm`,
   };
 }
 
@@ -49,7 +82,7 @@ export function buildClassifiedFilename(slug: string, stepNumber: number, type:
 }
 
 export async function copyToClassified(type: string, sourceFilePath: string, filename: string): Promise<void> {
-  const targetDir = `results/_classified/${type}`;
+  const targetDir = `${resultsRoot}/_classified/${type}`;
   await ensureDir(targetDir);
   await copyFile(sourceFilePath, `${targetDir}/${filename}`);
 }
@@ -1,19 +1,170 @@
 import { appendFile, writeFile } from "node:fs/promises";
+import type { AnswerRecord } from "../navigator/answerStrategy";
 
+export type StopReason =
+  | "paywall"
+  | "loop"
+  | "no_action"
+  | "page_closed"
+  | "navigation_failed"
+  | "step_limit"
+  | "diverged"
+  | "replay_end"
+  | "fatal";
+
+export type RescueKind = "goto_retry" | "email_enter" | "loop_enter";
+
+/** Payload of every event type; `type`, `ts`, `step` and `url` are added by StepLogger.emit. */
+export type RunEventPayloads = {
+  run_started: {
+    persona: string;
+    personaSummary: string;
+    device: string;
+    answerStrategy: string;
+    emulation: { locale: string; timezoneId: string | null; geolocation: string | null; acceptLanguage: string } | null;
+  };
+  screen_classified: {
+    screenType: string;
+    reason: string;
+    confidence: number;
+    runnerUp: string | null;
+    screenshot: string;
+    screenKey: string;
+    headline: string;
+  };
+  action_attempted: { screenType: string; decision: number };
+  action_result: { performed: boolean; messages: string[]; answer: AnswerRecord | null; error: string | null };
+  transition: { from: string; to: string; urlChanged: boolean };
+  rescue: { kind: RescueKind; recovered: boolean; detail: string | null };
+  stop: { reason: StopReason; detail: string | null; prices?: string[]; offers?: number };
+  error: { message: string };
+};
+
+export type RunEventType = keyof RunEventPayloads;
+
+export type RunEvent = {
+  [T in RunEventType]: { ts: string; type: T; step: number | null; url: string } & RunEventPayloads[T];
+}[RunEventType];
+
+function stopText(event: Extract<RunEvent, { type: "stop" }>): string[] {
+  switch (event.reason) {
+    case "paywall":
+      return [
+        "Paywall detected.",
+        `Detected prices: ${event.prices && event.prices.length > 0 ? event.prices.join(", ") : "none"}`,
+        `Extracted ${event.offers ?? 0} paywall offer(s), saved paywall.json.`,
+        "Stopping funnel.",
+      ];
+    case "loop":
+      return [`${event.detail}. Stopping to avoid loop.`];
+    case "no_action":
+      return ["No action performed 2 times in a row. Stopping."];
+    case "page_closed":
+      return [`Page was closed (${event.detail}). Stopping.`];
+    case "navigation_failed":
+      return [`page.goto retry also failed: ${event.detail}. Skipping funnel.`];
+    case "step_limit":
+      return [`Step limit reached (${event.detail}). Stopping.`];
+    case "diverged":
+      return [`Replay diverged: ${event.detail}. Stopping.`];
+    case "replay_end":
+      return [`Replay finished (${event.detail}). Stopping.`];
+    case "fatal":
+      return [`Fatal error: ${event.detail}`];
+  }
+}
+
+const RESCUE_TEXT: Record<RescueKind, string> = {
+  goto_retry: "page.goto first attempt failed: {detail}. Retrying with networkidle...",
+  email_enter: "Email screen looked stuck. Pressed Enter rescue.",
+  loop_enter: "Same screen repeated + no action. Pressed Enter rescue before final loop stop.",
+};
+
+/**
+ * log.txt rendering of one event. The text log is only a view of events.jsonl.
+ */
+export function formatEvent(event: RunEvent): string[] {
+  switch (event.type) {
+    case "run_started":
+      return [
+        `Persona: ${event.personaSummary}`,
+        `Device: ${event.device}`,
+        `Answer strategy: ${event.answerStrategy}`,
+        ...(event.emulation
+          ? [
+              `Emulation: locale=${event.emulation.locale}, timezone=${event.emulation.timezoneId ?? "default"}, geolocation=${
+                event.emulation.geolocation ?? "none"
+              }, Accept-Language=${event.emulation.acceptLanguage}`,
+            ]
+          : []),
+      ];
+    case "screen_classified":
+      return [
+        "",
+        `[STEP ${String(event.step).padStart(2, "0")}] ${event.screenType}`,
+        `Classifier: ${event.reason}`,
+        `Confidence: ${event.confidence}${event.runnerUp ? ` (runner-up: ${event.runnerUp})` : ""}`,
+        `Saved screenshot: ${event.screenshot}`,
+      ];
+    case "action_attempted":
+      return [];
+    case "action_result":
+      return [
+        ...event.messages,
+        ...(event.error ? [`Action error: ${event.error}`] : []),
+        ...(event.performed ? [] : ["No action performed."]),
+      ];
+    case "transition":
+      return event.urlChanged ? [`Opened ${event.to}`] : [];
+    case "rescue": {
+      const text = RESCUE_TEXT[event.kind].replace("{detail}", event.detail ?? "");
+      return event.recovered ? [text] : [text, "Rescue did not change the screen."];
+    }
+    case "stop":
+      return stopText(event);
+    case "error":
+      return [`Step ${event.step} error: ${event.message}`];
+  }
+}
+
+/**
+ * Per-run log: every event goes to events.jsonl (one JSON object per line) and,
+ * rendered by formatEvent, to the human-readable log.txt.
+ */
 export class StepLogger {
-  constructor(private readonly logPath: string) {}
+  constructor(
+    private readonly logPath: string,
+    private readonly eventsPath: string,
+  ) {}
 
   async init(url: string): Promise<void> {
     const header = `Quiz Funnel Runner log\nURL: ${url}\nStarted: ${new Date().toISOString()}\n\n`;
     await writeFile(this.logPath, header, "utf8");
+    await writeFile(this.eventsPath, "", "utf8");
   }
 
-  async step(step: number, type: string, messages: string[]): Promise<void> {
-    const lines = [`[STEP ${String(step).padStart(2, "0")}] ${type}`, ...messages, ""];
-    await appendFile(this.logPath, `${lines.join("\n")}\n`, "utf8");
+  async emit<T extends RunEventType>(
+    type: T,
+    step: number | null,
+    url: string,
+    payload: RunEventPayloads[T],
+  ): Promise<RunEvent> {
+    const event = { ts: new Date().toISOString(), type, step, url, ...payload } as RunEvent;
+    await appendFile(this.eventsPath, `${JSON.stringify(event)}\n`, "utf8");
+    const lines = formatEvent(event);
+    if (lines.length > 0) await appendFile(this.logPath, `${lines.join("\n")}\n`, "utf8");
+    return event;
   }
+}
 
-  async event(message: string): Promise<void> {
-    await appendFile(this.logPath, `${message}\n`, "utf8");
-  }
+export type ConsoleLog = (message: string) => void;
+
+/**
+ * console.log with a fixed prefix, so interleaved output of parallel workers stays readable.
+ */
+export function prefixedConsole(prefix: string): ConsoleLog {
+  return (message) => {
+    const lines = message.split("\n").map((line) => (prefix ? `${prefix} ${line}` : line));
+    console.log(lines.join("\n"));
+  };
 }